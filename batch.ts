@@ -0,0 +1,193 @@
+import { App, Modal, Notice, TAbstractFile, TFile, TFolder, Vault } from 'obsidian';
+import { ProcessError } from './process';
+
+export type ExportJobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ExportJob {
+	file: TFile;
+	status: ExportJobStatus;
+	outputPath?: string;
+	error?: string;
+}
+
+// Collect all markdown files from a selection of files and folders, without duplicates
+export function collectMarkdownFiles(selection: TAbstractFile[]): TFile[] {
+	const files = new Map<string, TFile>();
+
+	for (const item of selection) {
+		if (item instanceof TFolder) {
+			Vault.recurseChildren(item, (child) => {
+				if (child instanceof TFile && child.extension === 'md') {
+					files.set(child.path, child);
+				}
+			});
+		} else if (item instanceof TFile && item.extension === 'md') {
+			files.set(item.path, item);
+		}
+	}
+
+	return Array.from(files.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Runs exports for a list of files with a bounded number of exports at the same time
+export class ExportQueue {
+	jobs: ExportJob[];
+	concurrency: number;
+	cancelled = false;
+	worker: (file: TFile) => Promise<string>;
+	onChange: () => void = () => {};
+	onCancel: () => void = () => {};
+
+	constructor(files: TFile[], concurrency: number, worker: (file: TFile) => Promise<string>) {
+		this.jobs = files.map((file): ExportJob => ({ file, status: 'pending' }));
+		this.concurrency = Math.max(1, concurrency);
+		this.worker = worker;
+	}
+
+	async run(): Promise<void> {
+		let next = 0;
+
+		const runNext = async (): Promise<void> => {
+			while (!this.cancelled && next < this.jobs.length) {
+				const job = this.jobs[next++];
+				job.status = 'running';
+				this.onChange();
+
+				try {
+					job.outputPath = await this.worker(job.file);
+					job.status = 'done';
+				} catch (error) {
+					job.status = error instanceof ProcessError && error.cancelled ? 'cancelled' : 'failed';
+					job.error = error.message;
+				}
+				this.onChange();
+			}
+		};
+
+		const runners = [];
+		for (let i = 0; i < Math.min(this.concurrency, this.jobs.length); i++) {
+			runners.push(runNext());
+		}
+		await Promise.all(runners);
+	}
+
+	// Pending jobs are skipped, running exports are stopped by onCancel
+	cancel() {
+		this.cancelled = true;
+		this.onCancel();
+		this.jobs.forEach((job) => {
+			if (job.status === 'pending') {
+				job.status = 'cancelled';
+			}
+		});
+		this.onChange();
+	}
+
+	isFinished(): boolean {
+		return this.jobs.every((job) => job.status !== 'pending' && job.status !== 'running');
+	}
+
+	countByStatus(status: ExportJobStatus): number {
+		return this.jobs.filter((job) => job.status === status).length;
+	}
+}
+
+const STATUS_LABELS: Record<ExportJobStatus, string> = {
+	pending: 'Waiting',
+	running: 'Converting...',
+	done: 'Done',
+	failed: 'Failed',
+	cancelled: 'Cancelled'
+};
+
+// Shows the progress of a batch export; closing the modal does not stop the queue
+export class ExportQueueModal extends Modal {
+	queue: ExportQueue;
+	title: string;
+	listEl: HTMLElement;
+	summaryEl: HTMLElement;
+	cancelBtn: HTMLButtonElement;
+
+	constructor(app: App, queue: ExportQueue, title: string) {
+		super(app);
+		this.queue = queue;
+		this.title = title;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: this.title });
+
+		this.summaryEl = contentEl.createDiv({ cls: 'uni-export-queue-summary' });
+		this.listEl = contentEl.createDiv({ cls: 'uni-export-queue-list' });
+
+		this.cancelBtn = contentEl.createEl('button', { text: 'Cancel export', cls: 'mod-warning' });
+		this.cancelBtn.addEventListener('click', () => {
+			this.queue.cancel();
+		});
+
+		this.render();
+	}
+
+	render() {
+		if (!this.listEl) {
+			return;
+		}
+
+		this.listEl.empty();
+		this.queue.jobs.forEach((job) => {
+			const rowEl = this.listEl.createDiv({ cls: `uni-export-queue-item is-${job.status}` });
+			rowEl.createSpan({ text: job.file.path, cls: 'uni-export-queue-file' });
+			rowEl.createSpan({ text: STATUS_LABELS[job.status], cls: 'uni-export-queue-status' });
+			if (job.error) {
+				rowEl.createEl('pre', { text: job.error, cls: 'uni-export-queue-error' });
+			}
+		});
+
+		const done = this.queue.countByStatus('done');
+		const failed = this.queue.countByStatus('failed');
+		const cancelled = this.queue.countByStatus('cancelled');
+		const total = this.queue.jobs.length;
+
+		if (this.queue.isFinished()) {
+			this.summaryEl.setText(`Finished: ${done} of ${total} exported, ${failed} failed, ${cancelled} cancelled.`);
+			this.cancelBtn.disabled = true;
+		} else {
+			this.summaryEl.setText(`${done + failed} of ${total} processed${failed > 0 ? `, ${failed} failed` : ''}.`);
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+// Run a batch export with a progress modal and a summary notice at the end
+export async function runBatchExport(
+	app: App,
+	files: TFile[],
+	concurrency: number,
+	worker: (file: TFile) => Promise<string>,
+	onCancel: () => void
+): Promise<ExportQueue> {
+	const queue = new ExportQueue(files, concurrency, worker);
+	queue.onCancel = onCancel;
+	const modal = new ExportQueueModal(app, queue, `Exporting ${files.length} files to PDF`);
+	queue.onChange = () => modal.render();
+	modal.open();
+
+	await queue.run();
+
+	const failedJobs = queue.jobs.filter((job) => job.status === 'failed');
+	if (failedJobs.length === 0) {
+		new Notice(`Batch export finished: ${queue.countByStatus('done')} PDFs created`);
+	} else {
+		const failedList = failedJobs.map((job) => `${job.file.path}: ${job.error}`).join('\n');
+		console.error('Batch export failures:\n' + failedList);
+		new Notice(`Batch export finished with ${failedJobs.length} failed files:\n${failedJobs.map((job) => job.file.path).join('\n')}`);
+	}
+
+	return queue;
+}
@@ -0,0 +1,109 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+// Bibliography formats pandoc's citeproc can read
+export const BIBLIOGRAPHY_EXTENSIONS = ['bib', 'bibtex', 'json', 'yaml', 'yml'];
+
+export interface CitationSources {
+	bibliography: string[];
+	csl: string | null;
+}
+
+// Resolve a path from settings: absolute paths are kept, everything else is relative to the vault
+export function resolveVaultPath(vaultPath: string, value: string): string {
+	return path.isAbsolute(value) ? value : path.join(vaultPath, value);
+}
+
+// Resolve a path from frontmatter: relative to the note first, then relative to the vault root
+export function resolveNotePath(vaultPath: string, noteDir: string, value: string): string {
+	if (path.isAbsolute(value)) {
+		return value;
+	}
+
+	const noteRelative = path.join(noteDir, value);
+	if (fs.existsSync(noteRelative)) {
+		return noteRelative;
+	}
+
+	const vaultRelative = path.join(vaultPath, value);
+	if (fs.existsSync(vaultRelative)) {
+		return vaultRelative;
+	}
+
+	return noteRelative;
+}
+
+// Collect bibliography and CSL files from frontmatter, falling back to the template and global settings
+export function resolveCitationSources(
+	frontmatter: Record<string, unknown>,
+	vaultPath: string,
+	noteDir: string,
+	fallbackBibliography: string,
+	fallbackCsl: string
+): CitationSources {
+	let bibliography: string[] = [];
+	const frontmatterBibliography = frontmatter['bibliography'];
+	if (typeof frontmatterBibliography === 'string' && frontmatterBibliography.trim() !== '') {
+		bibliography = [resolveNotePath(vaultPath, noteDir, frontmatterBibliography.trim())];
+	} else if (Array.isArray(frontmatterBibliography)) {
+		bibliography = frontmatterBibliography
+			.filter((entry) => typeof entry === 'string' && entry.trim() !== '')
+			.map((entry: string) => resolveNotePath(vaultPath, noteDir, entry.trim()));
+	} else if (fallbackBibliography.trim() !== '') {
+		bibliography = [resolveVaultPath(vaultPath, fallbackBibliography.trim())];
+	}
+
+	let csl: string | null = null;
+	const frontmatterCsl = frontmatter['csl'];
+	if (typeof frontmatterCsl === 'string' && frontmatterCsl.trim() !== '') {
+		csl = resolveNotePath(vaultPath, noteDir, frontmatterCsl.trim());
+	} else if (fallbackCsl.trim() !== '') {
+		csl = resolveVaultPath(vaultPath, fallbackCsl.trim());
+	}
+
+	return { bibliography, csl };
+}
+
+// Return a list of problems with the citation files, empty if everything can be used
+export function validateCitationSources(sources: CitationSources): string[] {
+	const problems: string[] = [];
+
+	for (const bibliography of sources.bibliography) {
+		const extension = path.extname(bibliography).replace(/^\./, '').toLowerCase();
+		if (!BIBLIOGRAPHY_EXTENSIONS.includes(extension)) {
+			problems.push(`Unsupported bibliography format: ${path.basename(bibliography)}`);
+		} else if (!fs.existsSync(bibliography)) {
+			problems.push(`Bibliography file not found: ${bibliography}`);
+		}
+	}
+
+	if (sources.csl && !fs.existsSync(sources.csl)) {
+		problems.push(`CSL style not found: ${sources.csl}`);
+	}
+
+	return problems;
+}
+
+// Arguments that turn on citeproc with the resolved files, empty if there is nothing to cite from
+export function citationArgs(sources: CitationSources, hasReferences: boolean): string[] {
+	if (sources.bibliography.length === 0 && !hasReferences) {
+		return [];
+	}
+	const args = ['--citeproc', ...sources.bibliography.map((bibliography) => `--bibliography=${bibliography.replace(/\\/g, '/')}`)];
+	if (sources.csl) {
+		args.push(`--csl=${sources.csl.replace(/\\/g, '/')}`);
+	}
+	return args;
+}
+
+// Keys of the pandoc citations in a text, [@key, p. 3] as well as @key; e-mail addresses are not citations
+export function collectCitationKeys(markdown: string): string[] {
+	const keys = new Set<string>();
+	const regex = /(^|[^\w@])-?@([\w][\w:.#$%&+?<>~/-]*)/g;
+	let match: RegExpExecArray | null;
+	while ((match = regex.exec(markdown)) !== null) {
+		// Punctuation at the end belongs to the sentence, not to the key
+		keys.add(match[2].replace(/[:.#$%&+?<>~/-]+$/, ''));
+	}
+	return Array.from(keys);
+}
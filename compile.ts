@@ -0,0 +1,116 @@
+import { App, TFile, parseLinktext } from 'obsidian';
+import { MarkdownPreprocessor } from './preprocess';
+
+// Frontmatter keys that control compiling and should not end up in the document metadata
+export const MANIFEST_KEYS = ['chapters', 'compile', 'shift-headings'];
+
+// Matches list items whose content starts with a wikilink or a markdown link to a note
+const CHAPTER_LIST_REGEX = /^\s*(?:[-*+]|\d+[.)])\s+!?(?:\[\[([^\]|#]+)[^\]]*\]\]|\[[^\]]*\]\(([^)]+)\))/;
+
+export interface ChapterEntry {
+	file: TFile;
+	shift: number;
+}
+
+export interface Manifest {
+	chapters: ChapterEntry[];
+	// The manifest body is only part of the document when the chapters come from frontmatter
+	includeBody: boolean;
+}
+
+// Strip [[ ]] and an alias from a chapter reference written in frontmatter
+function parseChapterReference(value: string): string {
+	const inner = value.trim().replace(/^\[\[/, '').replace(/\]\]$/, '');
+	return parseLinktext(inner.split('|')[0]).path;
+}
+
+function resolveChapter(app: App, manifest: TFile, linkpath: string, shift: number): ChapterEntry {
+	const file = app.metadataCache.getFirstLinkpathDest(linkpath, manifest.path);
+	if (!file || file.extension !== 'md') {
+		throw new Error(`Chapter not found: ${linkpath}`);
+	}
+	return { file, shift };
+}
+
+// Read the chapter list of a manifest note, or null if the note is a regular note
+export function parseManifest(app: App, file: TFile, frontmatter: Record<string, unknown>, content: string): Manifest | null {
+	const defaultShift = Number(frontmatter['shift-headings']) || 0;
+
+	// Chapters listed in frontmatter, either as links or as { file, shift } entries
+	const chapters = frontmatter['chapters'];
+	if (Array.isArray(chapters)) {
+		const entries = chapters.map((entry: unknown) => {
+			if (typeof entry === 'string') {
+				return resolveChapter(app, file, parseChapterReference(entry), defaultShift);
+			}
+			const chapter = typeof entry === 'object' && entry !== null ? entry as Record<string, unknown> : null;
+			if (chapter && typeof chapter.file === 'string') {
+				const shift = chapter.shift !== undefined ? Number(chapter.shift) || 0 : defaultShift;
+				return resolveChapter(app, file, parseChapterReference(chapter.file), shift);
+			}
+			throw new Error(`Invalid chapter entry in ${file.path}: ${JSON.stringify(entry)}`);
+		});
+		return { chapters: entries, includeBody: true };
+	}
+
+	// Chapters as an ordered list of links in the note body
+	if (frontmatter['compile'] === true) {
+		const entries: ChapterEntry[] = [];
+		for (const line of content.split('\n')) {
+			const match = line.match(CHAPTER_LIST_REGEX);
+			if (!match) {
+				continue;
+			}
+			const linkpath = match[1] !== undefined ? match[1].trim() : decodeURI(match[2].trim().replace(/^<|>$/g, ''));
+			entries.push(resolveChapter(app, file, linkpath, defaultShift));
+		}
+
+		if (entries.length === 0) {
+			throw new Error(`No chapter links found in ${file.path}`);
+		}
+		return { chapters: entries, includeBody: false };
+	}
+
+	return null;
+}
+
+// Move all ATX headings outside of fenced code blocks by the given number of levels
+export function shiftHeadings(content: string, shift: number): string {
+	if (shift === 0) {
+		return content;
+	}
+
+	let inFence = false;
+	return content.split('\n').map((line) => {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+			return line;
+		}
+		if (inFence) {
+			return line;
+		}
+		return line.replace(/^(#{1,6})(?=\s)/, (hashes: string) => {
+			const level = Math.min(6, Math.max(1, hashes.length + shift));
+			return '#'.repeat(level);
+		});
+	}).join('\n');
+}
+
+// Concatenate the manifest and its chapters into one markdown document without frontmatter
+export async function compileManifest(preprocessor: MarkdownPreprocessor, file: TFile, manifest: Manifest): Promise<string> {
+	const parts: string[] = [];
+
+	if (manifest.includeBody) {
+		const body = await preprocessor.resolveBody(file);
+		if (body.trim() !== '') {
+			parts.push(body.trim());
+		}
+	}
+
+	for (const chapter of manifest.chapters) {
+		const body = await preprocessor.resolveBody(chapter.file, [file.path]);
+		parts.push(shiftHeadings(body.trim(), chapter.shift));
+	}
+
+	return parts.join('\n\n') + '\n';
+}
@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+
+export interface DocumentCounts {
+	words: number;
+	// Characters of the counted text including spaces, as many departments state limits in characters
+	characters: number;
+	// Only known after a PDF was created
+	pages: number | null;
+}
+
+export interface CountLimit {
+	min: number | null;
+	max: number | null;
+}
+
+// Frontmatter keys for the limits, German first as in the example frontmatter
+const WORD_LIMIT_KEYS = ['wortlimit', 'wordlimit'];
+const PAGE_LIMIT_KEYS = ['seitenlimit', 'pagelimit'];
+
+// A word needs at least one letter or digit, so dashes and bullet characters are not counted
+const WORD_CHARACTER_REGEX = /[0-9A-Za-zÀ-ɏͰ-ϿЀ-ӿ]/;
+
+// Remove everything that is not running text of the body
+function stripForCounting(markdown: string): string {
+	return markdown
+		// Code blocks and math
+		.replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[ \t]*$/gm, '')
+		.replace(/\$\$[\s\S]*?\$\$/g, '')
+		.replace(/\$[^$\n]+\$/g, '')
+		.replace(/`[^`\n]*`/g, '')
+		// Comments
+		.replace(/%%[\s\S]*?%%/g, '')
+		.replace(/<!--[\s\S]*?-->/g, '')
+		// Footnote definitions with their indented continuation lines, inline footnotes and references
+		.replace(/^\[\^[^\]]+\]:.*(?:\n(?:[ \t]+.*|[ \t]*$))*/gm, '')
+		.replace(/\^\[[^\]]*\]/g, '')
+		.replace(/\[\^[^\]]+\]/g, '')
+		// Citations and the bibliography div
+		.replace(/\[[^\]\n]*@[^\]\n]*\]/g, '')
+		.replace(/^:::.*$/gm, '')
+		// Images, link targets, attributes, raw LaTeX commands and HTML tags
+		.replace(/!\[([^\]]*)\]\([^)]*\)(\{[^}]*\})?/g, '')
+		.replace(/\]\([^)]*\)/g, ']')
+		.replace(/\{[#.][^}]*\}/g, '')
+		.replace(/\\[A-Za-z]+\*?/g, ' ')
+		.replace(/<[^>\n]+>/g, ' ')
+		// Headings, quotes, lists and table borders
+		.replace(/^[ \t]*(#{1,6}|>|[-*+]|\d+[.)])[ \t]+/gm, '')
+		.replace(/[|*_~=[\]]/g, ' ');
+}
+
+export function countText(markdown: string): DocumentCounts {
+	const text = stripForCounting(markdown);
+	const words = text.split(/\s+/).filter((word) => WORD_CHARACTER_REGEX.test(word));
+	return {
+		words: words.length,
+		characters: words.join(' ').length,
+		pages: null
+	};
+}
+
+// Count the pages of a PDF, looking into compressed object streams as pdfTeX writes them
+export async function countPdfPages(pdfPath: string): Promise<number | null> {
+	const buffer = await fs.promises.readFile(pdfPath);
+	const raw = buffer.toString('latin1');
+	let content = raw;
+
+	const objectStreamRegex = /\/Type\s*\/ObjStm[\s\S]*?stream\r?\n/g;
+	let match: RegExpExecArray | null;
+	while ((match = objectStreamRegex.exec(raw)) !== null) {
+		const start = match.index + match[0].length;
+		const end = raw.indexOf('endstream', start);
+		if (end < 0) {
+			break;
+		}
+		try {
+			content += zlib.inflateSync(buffer.subarray(start, end)).toString('latin1');
+		} catch (e) {
+			// Not deflate encoded or truncated, the page objects may still be outside of it
+		}
+	}
+
+	// The root of the page tree has the highest /Count
+	let pages = 0;
+	const pagesRegex = /\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)|\/Count\s+(\d+)[^>]*?\/Type\s*\/Pages\b/g;
+	while ((match = pagesRegex.exec(content)) !== null) {
+		pages = Math.max(pages, Number(match[1] ?? match[2]));
+	}
+	if (pages > 0) {
+		return pages;
+	}
+
+	const pageObjects = content.match(/\/Type\s*\/Page\b/g);
+	return pageObjects ? pageObjects.length : null;
+}
+
+// Read a limit like 3000 (maximum) or "2500-3000" (range) from the frontmatter
+export function parseLimit(metadata: Record<string, unknown>, keys: string[]): CountLimit | null {
+	const key = keys.find((k) => metadata[k] !== undefined && metadata[k] !== null && metadata[k] !== '');
+	if (!key) {
+		return null;
+	}
+
+	const value = String(metadata[key]).replace(/[.\s]/g, '');
+	const range = value.match(/^(\d+)[-–](\d+)$/);
+	if (range) {
+		return { min: Number(range[1]), max: Number(range[2]) };
+	}
+	const max = value.match(/^(\d+)$/);
+	return max ? { min: null, max: Number(max[1]) } : null;
+}
+
+function checkLimit(count: number, limit: CountLimit, unit: string): string | null {
+	if (limit.max !== null && count > limit.max) {
+		return `${count} ${unit}, ${count - limit.max} over the limit of ${limit.max}`;
+	}
+	if (limit.min !== null && count < limit.min) {
+		return `${count} ${unit}, ${limit.min - count} under the minimum of ${limit.min}`;
+	}
+	return null;
+}
+
+// Compare the counts with the limits in the frontmatter, returns a message per violated limit
+export function checkLimits(counts: DocumentCounts, metadata: Record<string, unknown>): string[] {
+	const problems: string[] = [];
+
+	const wordLimit = parseLimit(metadata, WORD_LIMIT_KEYS);
+	const wordProblem = wordLimit ? checkLimit(counts.words, wordLimit, 'words') : null;
+	if (wordProblem) {
+		problems.push(wordProblem);
+	}
+
+	const pageLimit = parseLimit(metadata, PAGE_LIMIT_KEYS);
+	const pageProblem = pageLimit && counts.pages !== null ? checkLimit(counts.pages, pageLimit, 'pages') : null;
+	if (pageProblem) {
+		problems.push(pageProblem);
+	}
+
+	return problems;
+}
+
+export function formatCounts(counts: DocumentCounts): string {
+	return `${counts.words} words${counts.pages !== null ? `, ${counts.pages} pages` : ''}`;
+}
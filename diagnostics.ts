@@ -0,0 +1,163 @@
+import { App, TFile } from 'obsidian';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+	severity: DiagnosticSeverity;
+	kind: string;
+	message: string;
+	hint: string;
+	// Text to look for in the markdown source to find the offending line
+	search?: string;
+	location?: DiagnosticLocation;
+}
+
+export interface DiagnosticLocation {
+	file: TFile;
+	line: number;
+}
+
+const PACKAGE_EXTENSIONS = ['sty', 'cls', 'def', 'cfg', 'fd'];
+
+function extensionOf(fileName: string): string {
+	const index = fileName.lastIndexOf('.');
+	return index >= 0 ? fileName.substring(index + 1).toLowerCase() : '';
+}
+
+function missingFile(fileName: string): Diagnostic {
+	if (PACKAGE_EXTENSIONS.includes(extensionOf(fileName))) {
+		const packageName = fileName.replace(/\.[^.]+$/, '');
+		return {
+			severity: 'error',
+			kind: 'missing-package',
+			message: `Missing LaTeX package: ${packageName}`,
+			hint: `Install "${packageName}" with your TeX distribution (MiKTeX Console or "tlmgr install ${packageName}").`
+		};
+	}
+
+	const baseName = fileName.split(/[\\/]/).pop() || fileName;
+	return {
+		severity: 'error',
+		kind: 'missing-image',
+		message: `Missing image or file: ${fileName}`,
+		hint: 'Check the file name and that the file is inside the vault or one of the resource paths.',
+		search: baseName
+	};
+}
+
+// Pick a few plain words from a LaTeX box snippet to find the paragraph in the markdown
+function snippetSearch(snippet: string): string | undefined {
+	const cleaned = snippet
+		.replace(/\\[A-Za-z]+\/[^\s]*/g, ' ')
+		.replace(/\\[A-Za-z@]+/g, ' ')
+		.replace(/[[\]{}$]/g, ' ');
+	const words = cleaned.split(/\s+/).filter((word) => word !== '' && !word.endsWith('-'));
+	if (words.length < 3) {
+		return undefined;
+	}
+	return words.slice(1, 4).join(' ');
+}
+
+// Parse pandoc and LaTeX output into readable diagnostics
+export function parseDiagnostics(output: string): Diagnostic[] {
+	const diagnostics: Diagnostic[] = [];
+	const lines = output.split(/\r?\n/);
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		let match: RegExpMatchArray | null;
+
+		if ((match = line.match(/^! LaTeX Error: File `([^']+)' not found/)) ||
+			(match = line.match(/^! Package \w+(?:\.def)? Error: File `([^']+)' not found/))) {
+			diagnostics.push(missingFile(match[1]));
+		} else if ((match = line.match(/Could not (?:fetch|find) resource:? '?([^']+?)'?(?::|$)/))) {
+			const diagnostic = missingFile(match[1].trim());
+			diagnostic.severity = 'warning';
+			diagnostics.push(diagnostic);
+		} else if (line.startsWith('! Undefined control sequence')) {
+			// The line after "l.<number>" ends with the undefined command
+			let command = '';
+			for (let j = i + 1; j < Math.min(i + 6, lines.length); j++) {
+				const context = lines[j].match(/^l\.\d+ (.*)$/);
+				if (context) {
+					const commands = context[1].match(/\\[A-Za-z@]+/g);
+					command = commands ? commands[commands.length - 1] : '';
+					break;
+				}
+			}
+			diagnostics.push({
+				severity: 'error',
+				kind: 'undefined-command',
+				message: command ? `Undefined control sequence: ${command}` : 'Undefined control sequence',
+				hint: 'A LaTeX command is misspelled or the package that defines it is not loaded in the template.',
+				search: command || undefined
+			});
+		} else if ((match = line.match(/Unicode character (.+?) \(U\+([0-9A-Fa-f]+)\)/))) {
+			diagnostics.push({
+				severity: 'error',
+				kind: 'unicode',
+				message: `Unicode character ${match[1]} (U+${match[2].toUpperCase()}) is not set up for LaTeX`,
+				hint: 'Use xelatex or lualatex as PDF engine, or a font or package that supports this character.',
+				search: match[1]
+			});
+		} else if ((match = line.match(/Missing character: There is no (.+?) (?:\(U\+([0-9A-Fa-f]+)\) )?in font (.+?)!/))) {
+			diagnostics.push({
+				severity: 'warning',
+				kind: 'unicode',
+				message: `Character ${match[1]}${match[2] ? ` (U+${match[2].toUpperCase()})` : ''} is missing in font ${match[3]}`,
+				hint: 'Choose a font in the template that contains this character (e.g. via the mainfont variable).',
+				search: match[1]
+			});
+		} else if ((match = line.match(/^Overfull \\([hv])box \(([\d.]+pt) too (?:wide|high)\)/))) {
+			const search = i + 1 < lines.length ? snippetSearch(lines[i + 1]) : undefined;
+			diagnostics.push({
+				severity: 'warning',
+				kind: 'overfull-box',
+				message: `Overfull ${match[1]}box, ${match[2]} too ${match[1] === 'h' ? 'wide' : 'high'}`,
+				hint: 'Text runs into the margin, usually because of a long word, URL or table. Add a hyphenation point or shorten it.',
+				search
+			});
+		} else if ((match = line.match(/^! (.+)$/))) {
+			diagnostics.push({
+				severity: 'error',
+				kind: 'latex-error',
+				message: match[1],
+				hint: 'See the full output below for the context of this error.'
+			});
+		}
+	}
+
+	// The same message often appears several times in the log
+	const seen = new Set<string>();
+	return diagnostics.filter((diagnostic) => {
+		const key = `${diagnostic.kind}:${diagnostic.message}`;
+		if (seen.has(key)) {
+			return false;
+		}
+		seen.add(key);
+		return true;
+	});
+}
+
+// Find the first line of the given notes that contains the search text of each diagnostic
+export async function locateDiagnostics(app: App, diagnostics: Diagnostic[], files: TFile[]): Promise<void> {
+	const contents = new Map<TFile, string[]>();
+	for (const file of files) {
+		contents.set(file, (await app.vault.cachedRead(file)).split('\n'));
+	}
+
+	for (const diagnostic of diagnostics) {
+		const search = diagnostic.search;
+		if (!search) {
+			continue;
+		}
+
+		for (const [file, lines] of contents) {
+			const line = lines.findIndex((text) => text.replace(/\s+/g, ' ').includes(search));
+			if (line >= 0) {
+				diagnostic.location = { file, line };
+				break;
+			}
+		}
+	}
+}
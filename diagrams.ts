@@ -0,0 +1,164 @@
+import { App, TFile, loadMermaid } from 'obsidian';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { getVaultPath } from './vault';
+
+export interface DiagramSettings {
+	mermaid: boolean;
+	excalidraw: boolean;
+}
+
+export function defaultDiagramSettings(): DiagramSettings {
+	return { mermaid: true, excalidraw: true };
+}
+
+const MERMAID_BLOCK_REGEX = /^(```|~~~)mermaid[ \t]*\r?\n([\s\S]*?)^\1[ \t]*$/gm;
+
+// Labels as SVG text instead of HTML, which only browsers can draw, and the light theme for print
+const MERMAID_PRINT_CONFIG = '%%{init: {"theme": "default", "flowchart": {"htmlLabels": false}}}%%';
+
+// The part of the scripting API the Excalidraw plugin publishes as window.ExcalidrawAutomate that the export uses
+interface ExcalidrawAutomate {
+	reset(): void;
+	createSVG(templatePath: string, embedFont: boolean, exportSettings: { withBackground: boolean, withTheme: boolean }): Promise<SVGSVGElement>;
+}
+
+// Null if the Excalidraw plugin is not enabled
+function getExcalidrawAutomate(): ExcalidrawAutomate | null {
+	return (window as Window & { ExcalidrawAutomate?: ExcalidrawAutomate }).ExcalidrawAutomate ?? null;
+}
+
+function contentHash(content: string): string {
+	return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+// Drawings of the Excalidraw plugin, in the current and in the legacy format
+export function isExcalidrawFile(app: App, file: TFile): boolean {
+	if (file.extension === 'excalidraw' || file.path.endsWith('.excalidraw.md')) {
+		return true;
+	}
+	return file.extension === 'md' && app.metadataCache.getFileCache(file)?.frontmatter?.['excalidraw-plugin'] !== undefined;
+}
+
+// Turns Mermaid blocks and Excalidraw drawings into image files pandoc can include
+// Images are cached by the hash of their source, unchanged diagrams are not rendered again
+export class DiagramRenderer {
+	app: App;
+	settings: DiagramSettings;
+	cacheDirectory: string;
+
+	constructor(app: App, settings: DiagramSettings, cacheDirectory: string) {
+		this.app = app;
+		this.settings = settings;
+		this.cacheDirectory = cacheDirectory;
+	}
+
+	async cached(name: string, render: () => Promise<string | null>): Promise<string | null> {
+		const imagePath = path.join(this.cacheDirectory, name);
+		if (fs.existsSync(imagePath)) {
+			return imagePath;
+		}
+
+		const svg = await render();
+		if (svg === null) {
+			return null;
+		}
+		await fs.promises.mkdir(this.cacheDirectory, { recursive: true });
+		await fs.promises.writeFile(imagePath, svg, 'utf8');
+		return imagePath;
+	}
+
+	// Replace ```mermaid blocks with images rendered by the Mermaid that comes with Obsidian
+	async replaceMermaidBlocks(content: string): Promise<string> {
+		if (!this.settings.mermaid || !/^(```|~~~)mermaid/m.test(content)) {
+			return content;
+		}
+
+		const blocks: { match: string, code: string }[] = [];
+		const regex = new RegExp(MERMAID_BLOCK_REGEX.source, 'gm');
+		let match: RegExpExecArray | null;
+		while ((match = regex.exec(content)) !== null) {
+			blocks.push({ match: match[0], code: match[2] });
+		}
+
+		for (const block of blocks) {
+			const imagePath = await this.renderMermaid(block.code);
+			content = content.replace(block.match, () => `![](<${imagePath.replace(/\\/g, '/')}>)`);
+		}
+		return content;
+	}
+
+	async renderMermaid(code: string): Promise<string> {
+		const hash = contentHash(code);
+		const imagePath = await this.cached(`mermaid-${hash}.svg`, async () => {
+			const mermaid = await loadMermaid();
+			try {
+				const result = await mermaid.render(`uni-export-mermaid-${hash.substring(0, 8)}`, `${MERMAID_PRINT_CONFIG}\n${code}`);
+				const svg: string = typeof result === 'string' ? result : result.svg;
+				// Mermaid writes HTML line breaks, SVG converters only read XML
+				return svg.replace(/<br\s*>/g, '<br/>');
+			} catch (e) {
+				throw new Error(`Mermaid diagram could not be rendered: ${e.message ?? e}\n${code.trim().split('\n')[0]}`);
+			}
+		});
+		return imagePath as string;
+	}
+
+	// Image of an Excalidraw drawing: the SVG or PNG Excalidraw exported next to it if it is up to date,
+	// else an SVG from the Excalidraw plugin; null if neither exists
+	async renderExcalidraw(file: TFile): Promise<string | null> {
+		if (!this.settings.excalidraw) {
+			return null;
+		}
+
+		const exported = this.findExport(file);
+		if (exported && exported.stat.mtime >= file.stat.mtime) {
+			return this.toAbsolutePath(exported);
+		}
+
+		const content = await this.app.vault.cachedRead(file);
+		const imagePath = await this.cached(`excalidraw-${contentHash(content)}.svg`, async () => {
+			const ea = getExcalidrawAutomate();
+			if (!ea) {
+				return null;
+			}
+			try {
+				ea.reset();
+				const svg = await ea.createSVG(file.path, true, { withBackground: true, withTheme: false });
+				return svg.outerHTML;
+			} catch (e) {
+				console.warn(`Excalidraw could not export ${file.path}:`, e);
+				return null;
+			}
+		});
+
+		if (imagePath) {
+			return imagePath;
+		}
+		if (exported) {
+			console.warn(`Using the outdated export of ${file.path}, the Excalidraw plugin is not enabled`);
+			return this.toAbsolutePath(exported);
+		}
+		return null;
+	}
+
+	// Excalidraw names its exports Drawing.svg or Drawing.excalidraw.svg, depending on its settings
+	findExport(file: TFile): TFile | null {
+		const withoutMd = file.path.replace(/\.md$/, '');
+		const stems = [withoutMd, withoutMd.replace(/\.excalidraw$/, '')];
+		for (const stem of stems) {
+			for (const extension of ['svg', 'png']) {
+				const exported = this.app.vault.getAbstractFileByPath(`${stem}.${extension}`);
+				if (exported instanceof TFile) {
+					return exported;
+				}
+			}
+		}
+		return null;
+	}
+
+	toAbsolutePath(file: TFile): string {
+		return path.join(getVaultPath(this.app), file.path);
+	}
+}
@@ -0,0 +1,120 @@
+export type OutputFormatId = 'pdf' | 'docx' | 'odt' | 'html' | 'latex' | 'beamer';
+
+export interface OutputFormat {
+	id: OutputFormatId;
+	label: string;
+	// Extension of the output file, without the dot
+	extension: string;
+	// Appended to the note name, so slides don't overwrite the PDF of the same note
+	fileSuffix: string;
+	// Pandoc writer, null lets pandoc pick it from the output extension
+	writer: string | null;
+	// The LaTeX template of the selected template is used with --template
+	usesLatexTemplate: boolean;
+	usesPdfEngine: boolean;
+	// How the per-format file from the settings is passed to pandoc
+	fileOption: '--reference-doc' | '--template' | null;
+	// Writer for --include-before-body and --include-after-body, null adds the notes to the Markdown instead
+	includeWriter: string | null;
+	fileExtensions: string[];
+	icon: string;
+}
+
+export const OUTPUT_FORMATS: OutputFormat[] = [
+	{
+		id: 'pdf',
+		label: 'PDF',
+		extension: 'pdf',
+		fileSuffix: '',
+		writer: null,
+		usesLatexTemplate: true,
+		usesPdfEngine: true,
+		fileOption: null,
+		includeWriter: 'latex',
+		fileExtensions: [],
+		icon: 'file-pdf'
+	},
+	{
+		id: 'docx',
+		label: 'Word (DOCX)',
+		extension: 'docx',
+		fileSuffix: '',
+		writer: null,
+		usesLatexTemplate: false,
+		usesPdfEngine: false,
+		fileOption: '--reference-doc',
+		includeWriter: null,
+		fileExtensions: ['docx'],
+		icon: 'file-text'
+	},
+	{
+		id: 'odt',
+		label: 'OpenDocument (ODT)',
+		extension: 'odt',
+		fileSuffix: '',
+		writer: null,
+		usesLatexTemplate: false,
+		usesPdfEngine: false,
+		fileOption: '--reference-doc',
+		includeWriter: null,
+		fileExtensions: ['odt'],
+		icon: 'file-text'
+	},
+	{
+		id: 'html',
+		label: 'HTML',
+		extension: 'html',
+		fileSuffix: '',
+		writer: null,
+		usesLatexTemplate: false,
+		usesPdfEngine: false,
+		fileOption: '--template',
+		includeWriter: 'html',
+		fileExtensions: ['html', 'htm'],
+		icon: 'file-code'
+	},
+	{
+		id: 'latex',
+		label: 'LaTeX source',
+		extension: 'tex',
+		fileSuffix: '',
+		writer: 'latex',
+		usesLatexTemplate: true,
+		usesPdfEngine: false,
+		fileOption: null,
+		includeWriter: 'latex',
+		fileExtensions: [],
+		icon: 'file-code'
+	},
+	{
+		id: 'beamer',
+		label: 'Beamer slides',
+		extension: 'pdf',
+		fileSuffix: '-slides',
+		writer: 'beamer',
+		usesLatexTemplate: false,
+		usesPdfEngine: true,
+		fileOption: '--template',
+		includeWriter: 'latex',
+		fileExtensions: ['tex', 'latex'],
+		icon: 'presentation'
+	}
+];
+
+export function getOutputFormat(id: OutputFormatId): OutputFormat {
+	return OUTPUT_FORMATS.find((format) => format.id === id) ?? OUTPUT_FORMATS[0];
+}
+
+export interface FormatSettings {
+	enabled: boolean;
+	// Reference document or template for this format (relative to vault root)
+	filePath: string;
+}
+
+export function defaultFormatSettings(): Record<OutputFormatId, FormatSettings> {
+	const settings = {} as Record<OutputFormatId, FormatSettings>;
+	OUTPUT_FORMATS.forEach((format) => {
+		settings[format.id] = { enabled: format.id === 'pdf', filePath: '' };
+	});
+	return settings;
+}
@@ -0,0 +1,112 @@
+import { App, TFile, getFrontMatterInfo, moment, parseLinktext, parseYaml } from 'obsidian';
+
+// Properties Obsidian uses for itself, they never belong into the document
+const OBSIDIAN_KEYS = ['tags', 'tag', 'aliases', 'alias', 'cssclasses', 'cssclass', 'publish', 'position'];
+
+const WIKILINK_REGEX = /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2})?$/;
+
+export interface FrontmatterOptions {
+	// moment.js format, e.g. "D. MMMM YYYY"
+	dateFormat: string;
+	// moment.js locale, empty for the language of Obsidian
+	dateLocale: string;
+}
+
+// Frontmatter of a note as Obsidian parsed it; falls back to the file content while the cache is not ready
+export function readFrontmatter(app: App, file: TFile, content: string): Record<string, unknown> {
+	const cached = app.metadataCache.getFileCache(file)?.frontmatter;
+	if (cached) {
+		// Copy, so the cache is never changed by the export
+		const frontmatter = JSON.parse(JSON.stringify(cached));
+		delete frontmatter['position'];
+		return frontmatter;
+	}
+
+	const info = getFrontMatterInfo(content);
+	if (!info.exists) {
+		return {};
+	}
+	const parsed = parseYaml(info.frontmatter);
+	return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+}
+
+// The text a link property stands for: its alias, the title of the linked note or the note name
+function linkTitle(app: App, sourcePath: string, linktext: string, alias: string | undefined): string {
+	if (alias) {
+		return alias.trim();
+	}
+
+	const { path: linkpath } = parseLinktext(linktext.trim());
+	const target = app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+	if (target) {
+		const title = app.metadataCache.getFileCache(target)?.frontmatter?.['title'];
+		return typeof title === 'string' && title.trim() !== '' ? title : target.basename;
+	}
+	return linkpath.split('/').pop() ?? linkpath;
+}
+
+function formatDate(value: string | Date, options: FrontmatterOptions): string {
+	const date = moment(value);
+	if (options.dateLocale) {
+		date.locale(options.dateLocale);
+	}
+	return date.format(options.dateFormat || 'LL');
+}
+
+function convertValue(app: App, file: TFile, value: unknown, options: FrontmatterOptions): unknown {
+	if (Array.isArray(value)) {
+		return value.map((item) => convertValue(app, file, item, options));
+	}
+	if (value instanceof Date) {
+		return formatDate(value, options);
+	}
+	if (value && typeof value === 'object') {
+		const result: Record<string, unknown> = {};
+		Object.entries(value).forEach(([key, item]) => {
+			result[key] = convertValue(app, file, item, options);
+		});
+		return result;
+	}
+	if (typeof value !== 'string') {
+		return value;
+	}
+
+	if (DATE_REGEX.test(value) || DATETIME_REGEX.test(value)) {
+		return formatDate(value, options);
+	}
+	return value.replace(WIKILINK_REGEX, (match, linktext: string, alias: string | undefined) =>
+		linkTitle(app, file.path, linktext, alias));
+}
+
+// Turn Obsidian properties into pandoc metadata: links become titles, dates are formatted
+// and Obsidian's own keys are left out
+export function convertFrontmatter(app: App, file: TFile, frontmatter: Record<string, unknown>, options: FrontmatterOptions): Record<string, unknown> {
+	const metadata: Record<string, unknown> = {};
+	Object.keys(frontmatter).forEach((key) => {
+		if (!OBSIDIAN_KEYS.includes(key)) {
+			metadata[key] = convertValue(app, file, frontmatter[key], options);
+		}
+	});
+	return metadata;
+}
+
+// Rename fields for a template; a mapping to an empty value drops the field
+export function remapFields(metadata: Record<string, unknown>, mapping: Record<string, unknown>): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	Object.keys(metadata).forEach((key) => {
+		if (!(key in mapping)) {
+			if (!(key in result)) {
+				result[key] = metadata[key];
+			}
+			return;
+		}
+
+		const target = mapping[key];
+		if (target !== null && target !== undefined && String(target).trim() !== '') {
+			result[String(target).trim()] = metadata[key];
+		}
+	});
+	return result;
+}
@@ -0,0 +1,115 @@
+import { App, Modal } from 'obsidian';
+import { OutputFormatId } from './formats';
+
+// Entries beyond this are dropped together with their logs
+export const MAX_HISTORY = 50;
+
+export interface ExportHistoryEntry {
+	id: string;
+	notePath: string;
+	// Everything needed to run the export again
+	templateId: string | null;
+	format: OutputFormatId;
+	presetId?: string;
+	bundle?: boolean;
+	templateName: string;
+	formatLabel: string;
+	// Absolute path of the output file, empty if the export failed
+	outputPath: string;
+	startedAt: number;
+	// Milliseconds
+	duration: number;
+	success: boolean;
+	error?: string;
+	// Vault path of the saved pandoc output, null if pandoc never ran
+	logPath: string | null;
+}
+
+export interface HistoryActions {
+	openNote: (entry: ExportHistoryEntry) => void;
+	openOutput: (entry: ExportHistoryEntry) => void;
+	openLog: (entry: ExportHistoryEntry) => void;
+	rerun: (entry: ExportHistoryEntry) => void;
+	clear: () => Promise<void>;
+}
+
+export function formatDuration(milliseconds: number): string {
+	const seconds = milliseconds / 1000;
+	return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+// List of past exports, newest first
+export class ExportHistoryModal extends Modal {
+	entries: ExportHistoryEntry[];
+	actions: HistoryActions;
+
+	constructor(app: App, entries: ExportHistoryEntry[], actions: HistoryActions) {
+		super(app);
+		this.entries = entries;
+		this.actions = actions;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: 'Export history' });
+		this.render();
+	}
+
+	render() {
+		const { contentEl } = this;
+		contentEl.querySelector('.uni-export-history-list')?.remove();
+		contentEl.querySelector('.uni-export-history-footer')?.remove();
+
+		const listEl = contentEl.createDiv({ cls: 'uni-export-history-list' });
+		if (this.entries.length === 0) {
+			listEl.createEl('p', { text: 'No exports yet.' });
+			return;
+		}
+
+		this.entries.forEach((entry) => {
+			const rowEl = listEl.createDiv({ cls: `uni-export-history-item ${entry.success ? 'is-success' : 'is-failed'}` });
+
+			const titleEl = rowEl.createDiv({ cls: 'uni-export-history-title' });
+			titleEl.createSpan({ text: entry.success ? '✓ ' : '✗ ' });
+			const noteLink = titleEl.createEl('a', { text: entry.notePath });
+			noteLink.addEventListener('click', () => this.actions.openNote(entry));
+
+			rowEl.createDiv({
+				text: `${entry.formatLabel}, ${entry.templateName}, ${new Date(entry.startedAt).toLocaleString()}, ${formatDuration(entry.duration)}`,
+				cls: 'uni-export-history-details'
+			});
+			if (entry.error) {
+				rowEl.createEl('pre', { text: entry.error, cls: 'uni-export-history-error' });
+			}
+
+			const actionsEl = rowEl.createDiv({ cls: 'uni-export-history-actions' });
+			if (entry.outputPath) {
+				const outputLink = actionsEl.createEl('a', { text: 'Open output' });
+				outputLink.addEventListener('click', () => this.actions.openOutput(entry));
+			}
+			if (entry.logPath) {
+				const logLink = actionsEl.createEl('a', { text: 'Log' });
+				logLink.addEventListener('click', () => this.actions.openLog(entry));
+			}
+			const rerunLink = actionsEl.createEl('a', { text: 'Run again' });
+			rerunLink.addEventListener('click', () => {
+				this.close();
+				this.actions.rerun(entry);
+			});
+		});
+
+		const footerEl = contentEl.createDiv({ cls: 'uni-export-history-footer' });
+		const clearBtn = footerEl.createEl('button', { text: 'Clear history' });
+		clearBtn.addEventListener('click', async () => {
+			await this.actions.clear();
+			this.entries = [];
+			this.render();
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
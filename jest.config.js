@@ -0,0 +1,12 @@
+module.exports = {
+	testEnvironment: 'node',
+	roots: ['<rootDir>/tests'],
+	transform: {
+		// The plugin is bundled without esModuleInterop, so ts-jest's hint about it does not apply
+		'^.+\\.ts$': ['ts-jest', { diagnostics: { ignoreCodes: ['TS151001'] } }]
+	},
+	// The obsidian package only ships types, tests get the few runtime parts they use from a stand-in
+	moduleNameMapper: {
+		'^obsidian$': '<rootDir>/tests/obsidian.ts'
+	}
+};
@@ -0,0 +1,278 @@
+import { moment } from 'obsidian';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+
+// Name of the LaTeX file in the bundle, Overleaf compiles main.tex by default
+export const BUNDLE_MAIN_FILE = 'main.tex';
+// Pandoc extracts the images of the note into this folder
+export const BUNDLE_IMAGES_DIRECTORY = 'images';
+// Files the template loads (logos, local packages, included .tex files) are copied here
+const BUNDLE_ASSETS_DIRECTORY = 'assets';
+
+// \includegraphics[...]{file}, \input{file}, \usepackage{a,b}, \documentclass{class} ...
+const ASSET_REGEX = /\\(includegraphics|input|include|usepackage|RequirePackage|documentclass|LoadClass)(\s*\[[^\]]*\])?\s*\{([^{}]+)\}/g;
+
+const GRAPHICS_EXTENSIONS = ['', '.pdf', '.png', '.jpg', '.jpeg', '.eps'];
+
+export interface LatexBundleConfig {
+	bundleDirectory: string;
+	noteName: string;
+	templateName: string;
+	engine: string;
+	// Where the template looks for its files: template folder, images folder, note folder
+	searchDirectories: string[];
+	bibliography: string[];
+	csl: string | null;
+}
+
+// How to compile with the engine locally and which compiler to choose in Overleaf
+const ENGINE_INSTRUCTIONS: Record<string, { command: string, overleaf: string }> = {
+	xelatex: { command: 'latexmk -xelatex main.tex', overleaf: 'XeLaTeX' },
+	lualatex: { command: 'latexmk -lualatex main.tex', overleaf: 'LuaLaTeX' },
+	pdflatex: { command: 'latexmk -pdf main.tex', overleaf: 'pdfLaTeX' },
+	latexmk: { command: 'latexmk -pdf main.tex', overleaf: 'pdfLaTeX' },
+	tectonic: { command: 'tectonic main.tex', overleaf: 'XeLaTeX' }
+};
+
+// Find a file the way TeX would: as given, then with the usual extensions, in each search directory
+function findAsset(name: string, extensions: string[], searchDirectories: string[]): string | null {
+	const candidates = path.isAbsolute(name) ? [''] : searchDirectories;
+	for (const directory of candidates) {
+		for (const extension of extensions) {
+			const candidate = path.join(directory, name + extension);
+			if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+				return candidate;
+			}
+		}
+	}
+	return null;
+}
+
+// Copy every local file the LaTeX source refers to into the bundle and rewrite the references
+// Files that are not found (installed packages and classes) are left alone
+async function collectAssets(tex: string, config: LatexBundleConfig): Promise<string> {
+	const copied = new Map<string, string>();
+	const usedNames = new Set<string>();
+
+	const copyAsset = async (source: string, directory: string): Promise<string> => {
+		const existing = copied.get(source);
+		if (existing) {
+			return existing;
+		}
+
+		// Two different files with the same name get a number
+		const extension = path.extname(source);
+		const base = path.basename(source, extension);
+		let name = `${base}${extension}`;
+		for (let counter = 2; usedNames.has(`${directory}/${name}`); counter++) {
+			name = `${base}-${counter}${extension}`;
+		}
+		usedNames.add(`${directory}/${name}`);
+
+		const relative = directory ? `${directory}/${name}` : name;
+		await fs.promises.mkdir(path.join(config.bundleDirectory, directory), { recursive: true });
+		await fs.promises.copyFile(source, path.join(config.bundleDirectory, relative));
+		copied.set(source, relative);
+		return relative;
+	};
+
+	const replacements: { index: number, length: number, text: string }[] = [];
+	const regex = new RegExp(ASSET_REGEX.source, 'g');
+	let match: RegExpExecArray | null;
+	while ((match = regex.exec(tex)) !== null) {
+		const [full, command, options = '', argument] = match;
+
+		if (command === 'usepackage' || command === 'RequirePackage' || command === 'documentclass' || command === 'LoadClass') {
+			// Local packages and classes are found by TeX in the folder of main.tex
+			const extension = command === 'documentclass' || command === 'LoadClass' ? '.cls' : '.sty';
+			for (const name of argument.split(',').map((part) => part.trim()).filter((part) => part !== '' && !part.includes('$'))) {
+				const source = findAsset(name, [extension], config.searchDirectories);
+				if (source) {
+					await copyAsset(source, '');
+				}
+			}
+			continue;
+		}
+
+		const name = argument.trim().replace(/^"(.*)"$/, '$1');
+		if (!path.isAbsolute(name) && fs.existsSync(path.join(config.bundleDirectory, name))) {
+			continue;
+		}
+		const source = findAsset(name, command === 'includegraphics' ? GRAPHICS_EXTENSIONS : ['', '.tex'], config.searchDirectories);
+		if (source) {
+			const relative = await copyAsset(source, BUNDLE_ASSETS_DIRECTORY);
+			replacements.push({ index: match.index, length: full.length, text: `\\${command}${options}{${relative}}` });
+		}
+	}
+
+	// Replace from the end so the indexes stay valid
+	let result = tex;
+	replacements.reverse().forEach((replacement) => {
+		result = result.substring(0, replacement.index) + replacement.text + result.substring(replacement.index + replacement.length);
+	});
+	return result;
+}
+
+function createReadme(config: LatexBundleConfig, files: string[]): string {
+	const instructions = ENGINE_INSTRUCTIONS[config.engine] ?? { command: `${config.engine} main.tex`, overleaf: config.engine };
+	const lines = [
+		`# ${config.noteName}`,
+		'',
+		`LaTeX source exported from Obsidian on ${moment().format('YYYY-MM-DD HH:mm')} with the template "${config.templateName}".`,
+		'',
+		'## Compiling',
+		'',
+		`Compile ${BUNDLE_MAIN_FILE} with **${config.engine}**:`,
+		'',
+		`    ${instructions.command}`,
+		'',
+		`In Overleaf, upload the folder or .zip as a new project and choose "${instructions.overleaf}" under Menu > Compiler.`,
+		'',
+		'## Files',
+		'',
+		`- \`${BUNDLE_MAIN_FILE}\`: the document`
+	];
+	if (files.includes(BUNDLE_IMAGES_DIRECTORY)) {
+		lines.push(`- \`${BUNDLE_IMAGES_DIRECTORY}/\`: images of the note`);
+	}
+	if (files.includes(BUNDLE_ASSETS_DIRECTORY)) {
+		lines.push(`- \`${BUNDLE_ASSETS_DIRECTORY}/\`: images and files loaded by the template`);
+	}
+	files.filter((file) => /\.(sty|cls)$/.test(file)).forEach((file) => lines.push(`- \`${file}\`: loaded by the template`));
+
+	if (config.bibliography.length > 0 || config.csl) {
+		lines.push(
+			'',
+			'## Citations',
+			'',
+			'Citations and the bibliography were already formatted by pandoc, so no BibTeX or Biber run is needed.',
+			'The bibliography and citation style are included for reference:',
+			''
+		);
+		config.bibliography.forEach((bibliography) => lines.push(`- \`${path.basename(bibliography)}\``));
+		if (config.csl) {
+			lines.push(`- \`${path.basename(config.csl)}\``);
+		}
+	}
+	return lines.join('\n') + '\n';
+}
+
+// Pandoc writes the absolute path of the extracted images, a .tex that is moved or shared needs relative ones
+export function relativizePaths(tex: string, directory: string): string {
+	const prefix = directory.replace(/\\/g, '/').replace(/\/?$/, '/');
+	return tex.split(prefix).join('');
+}
+
+// Turn the folder pandoc rendered main.tex into into a self-contained bundle
+export async function finishLatexBundle(config: LatexBundleConfig) {
+	const mainPath = path.join(config.bundleDirectory, BUNDLE_MAIN_FILE);
+	let tex = await fs.promises.readFile(mainPath, 'utf8');
+
+	tex = relativizePaths(tex, config.bundleDirectory);
+
+	tex = await collectAssets(tex, config);
+	await fs.promises.writeFile(mainPath, tex, 'utf8');
+
+	for (const source of [...config.bibliography, ...(config.csl ? [config.csl] : [])]) {
+		if (fs.existsSync(source)) {
+			await fs.promises.copyFile(source, path.join(config.bundleDirectory, path.basename(source)));
+		}
+	}
+
+	const files = await fs.promises.readdir(config.bundleDirectory);
+	await fs.promises.writeFile(path.join(config.bundleDirectory, 'README.md'), createReadme(config, files), 'utf8');
+}
+
+const CRC_TABLE = (() => {
+	const table: number[] = [];
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table.push(c >>> 0);
+	}
+	return table;
+})();
+
+function crc32(buffer: Buffer): number {
+	let crc = 0xffffffff;
+	for (let i = 0; i < buffer.length; i++) {
+		crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function listFiles(directory: string, prefix = ''): Promise<string[]> {
+	const files: string[] = [];
+	for (const entry of await fs.promises.readdir(directory, { withFileTypes: true })) {
+		const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+		if (entry.isDirectory()) {
+			files.push(...await listFiles(path.join(directory, entry.name), relative));
+		} else if (entry.isFile()) {
+			files.push(relative);
+		}
+	}
+	return files;
+}
+
+// Pack a folder into a .zip with deflated entries, enough for Overleaf and every unzip tool
+export async function createZip(directory: string, zipPath: string) {
+	const now = new Date();
+	const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+	const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+	const localParts: Buffer[] = [];
+	const centralParts: Buffer[] = [];
+	let offset = 0;
+
+	for (const name of await listFiles(directory)) {
+		const data = await fs.promises.readFile(path.join(directory, name));
+		const compressed = zlib.deflateRawSync(data);
+		const nameBuffer = Buffer.from(name, 'utf8');
+		const crc = crc32(data);
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(20, 4);
+		// Bit 11: the file name is UTF-8
+		local.writeUInt16LE(0x0800, 6);
+		local.writeUInt16LE(8, 8);
+		local.writeUInt16LE(dosTime, 10);
+		local.writeUInt16LE(dosDate, 12);
+		local.writeUInt32LE(crc, 14);
+		local.writeUInt32LE(compressed.length, 18);
+		local.writeUInt32LE(data.length, 22);
+		local.writeUInt16LE(nameBuffer.length, 26);
+		local.writeUInt16LE(0, 28);
+		localParts.push(local, nameBuffer, compressed);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(20, 4);
+		central.writeUInt16LE(20, 6);
+		central.writeUInt16LE(0x0800, 8);
+		central.writeUInt16LE(8, 10);
+		central.writeUInt16LE(dosTime, 12);
+		central.writeUInt16LE(dosDate, 14);
+		central.writeUInt32LE(crc, 16);
+		central.writeUInt32LE(compressed.length, 20);
+		central.writeUInt32LE(data.length, 24);
+		central.writeUInt16LE(nameBuffer.length, 28);
+		central.writeUInt32LE(offset, 42);
+		centralParts.push(central, nameBuffer);
+
+		offset += local.length + nameBuffer.length + compressed.length;
+	}
+
+	const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(centralParts.length / 2, 8);
+	end.writeUInt16LE(centralParts.length / 2, 10);
+	end.writeUInt32LE(centralSize, 12);
+	end.writeUInt32LE(offset, 16);
+
+	await fs.promises.writeFile(zipPath, Buffer.concat([...localParts, ...centralParts, end]));
+}
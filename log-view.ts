@@ -0,0 +1,150 @@
+import { ItemView, MarkdownView, TFile, WorkspaceLeaf } from 'obsidian';
+import { Diagnostic, DiagnosticLocation } from './diagnostics';
+
+export const VIEW_TYPE_EXPORT_LOG = 'uni-export-log';
+
+// Keep the log of the last runs only, LaTeX output can be large
+const MAX_RUNS = 20;
+
+export interface ExportRun {
+	file: TFile;
+	templateName: string;
+	formatLabel: string;
+	startedAt: number;
+	finishedAt: number;
+	command: string;
+	output: string;
+	success: boolean;
+	error?: string;
+	// Word and page count of a successful export
+	summary?: string;
+	diagnostics: Diagnostic[];
+}
+
+// In-memory list of export runs shared by all open log views
+export class ExportLog {
+	runs: ExportRun[] = [];
+	listeners: Set<() => void> = new Set();
+
+	add(run: ExportRun) {
+		this.runs.unshift(run);
+		this.runs.splice(MAX_RUNS);
+		this.listeners.forEach((listener) => listener());
+	}
+
+	clear() {
+		this.runs = [];
+		this.listeners.forEach((listener) => listener());
+	}
+}
+
+// Workspace view listing export runs with parsed LaTeX errors and the full output
+export class ExportLogView extends ItemView {
+	log: ExportLog;
+	listener = () => this.render();
+
+	constructor(leaf: WorkspaceLeaf, log: ExportLog) {
+		super(leaf);
+		this.log = log;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_EXPORT_LOG;
+	}
+
+	getDisplayText(): string {
+		return 'Export log';
+	}
+
+	getIcon(): string {
+		return 'file-pdf';
+	}
+
+	async onOpen() {
+		this.log.listeners.add(this.listener);
+		this.render();
+	}
+
+	async onClose() {
+		this.log.listeners.delete(this.listener);
+	}
+
+	render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('uni-export-log');
+
+		const headerEl = contentEl.createDiv({ cls: 'uni-export-log-header' });
+		headerEl.createEl('h4', { text: 'Export log' });
+		const clearBtn = headerEl.createEl('button', { text: 'Clear' });
+		clearBtn.addEventListener('click', () => this.log.clear());
+
+		if (this.log.runs.length === 0) {
+			contentEl.createEl('p', { text: 'No exports yet.', cls: 'uni-export-log-empty' });
+			return;
+		}
+
+		this.log.runs.forEach((run, index) => this.renderRun(contentEl, run, index === 0));
+	}
+
+	renderRun(containerEl: HTMLElement, run: ExportRun, open: boolean) {
+		const runEl = containerEl.createEl('details', { cls: `uni-export-log-run ${run.success ? 'is-success' : 'is-failed'}` });
+		runEl.open = open;
+
+		const duration = ((run.finishedAt - run.startedAt) / 1000).toFixed(1);
+		const time = new Date(run.startedAt).toLocaleTimeString();
+		runEl.createEl('summary', {
+			text: `${run.success ? '✓' : '✗'} ${run.file.basename} (${run.formatLabel}, ${run.templateName}), ${time}, ${duration}s`
+		});
+
+		if (run.error) {
+			runEl.createEl('pre', { text: run.error, cls: 'uni-export-log-error' });
+		}
+
+		if (run.summary) {
+			runEl.createDiv({ text: run.summary, cls: 'uni-export-log-summary' });
+		}
+
+		if (run.diagnostics.length > 0) {
+			const listEl = runEl.createDiv({ cls: 'uni-export-log-diagnostics' });
+			run.diagnostics.forEach((diagnostic) => this.renderDiagnostic(listEl, diagnostic));
+		}
+
+		const outputEl = runEl.createEl('details', { cls: 'uni-export-log-output' });
+		outputEl.createEl('summary', { text: 'Full output' });
+		outputEl.createEl('pre', { text: `${run.command}\n\n${run.output || '(no output)'}` });
+	}
+
+	renderDiagnostic(containerEl: HTMLElement, diagnostic: Diagnostic) {
+		const itemEl = containerEl.createDiv({ cls: `uni-export-log-diagnostic is-${diagnostic.severity}` });
+		itemEl.createDiv({ text: diagnostic.message, cls: 'uni-export-log-message' });
+		itemEl.createDiv({ text: diagnostic.hint, cls: 'uni-export-log-hint' });
+
+		const location = diagnostic.location;
+		if (location) {
+			const linkEl = itemEl.createEl('a', {
+				text: `${location.file.path}, line ${location.line + 1}`,
+				cls: 'uni-export-log-location'
+			});
+			linkEl.addEventListener('click', () => this.openLocation(location));
+		}
+	}
+
+	async openLocation(location: DiagnosticLocation) {
+		// Reuse a leaf that already shows the note, never replace the log view itself
+		const existing = this.app.workspace.getLeavesOfType('markdown')
+			.find((leaf) => (leaf.view as MarkdownView).file === location.file);
+		const leaf = existing ?? this.app.workspace.getLeaf('tab');
+		if (!existing) {
+			await leaf.openFile(location.file);
+		}
+		this.app.workspace.setActiveLeaf(leaf, { focus: true });
+
+		const view = leaf.view;
+		if (view instanceof MarkdownView) {
+			const position = { line: location.line, ch: 0 };
+			view.editor.setCursor(position);
+			view.editor.scrollIntoView({ from: position, to: position }, true);
+		}
+	}
+}
@@ -1,54 +1,220 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, Menu, MenuItem, normalizePath, TFile, Command } from 'obsidian';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { App, Editor, MarkdownView, Modal, Notice, Platform, Plugin, PluginSettingTab, Setting, Menu, MenuItem, normalizePath, TAbstractFile, TFile, TFolder, setIcon } from 'obsidian';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as yaml from 'js-yaml';
-import * as os from 'os';
-
-const execPromise = promisify(exec);
+import { MarkdownPreprocessor } from './preprocess';
+import { BIBLIOGRAPHY_EXTENSIONS, citationArgs, collectCitationKeys, resolveCitationSources, validateCitationSources } from './citations';
+import { collectMarkdownFiles, runBatchExport } from './batch';
+import { Manifest, MANIFEST_KEYS, compileManifest, parseManifest } from './compile';
+import { ProcessError, ProcessResult, RunningProcess, formatCommand, openWithSystem, parseArgs } from './process';
+import { Diagnostic, locateDiagnostics, parseDiagnostics } from './diagnostics';
+import { ExportLog, ExportLogView, VIEW_TYPE_EXPORT_LOG } from './log-view';
+import { MissingVariablesModal, checkTemplateVariables, completeTemplate, scanTemplateVariables } from './template-variables';
+import { FormatSettings, OUTPUT_FORMATS, OutputFormat, OutputFormatId, defaultFormatSettings, getOutputFormat } from './formats';
+import { SETTINGS_VERSION, createId, migrateSettings } from './settings-migration';
+import { SetupCheckConfig, SetupCheckModal } from './setup-check';
+import { convertFrontmatter, readFrontmatter, remapFields } from './frontmatter';
+import { DocumentCounts, checkLimits, countPdfPages, countText, formatCounts } from './counting';
+import { ConflictMode, DEFAULT_OUTPUT_PATTERN, applyConflictMode, expandOutputPattern } from './output-path';
+import { SYNTAX_LATEX_PREAMBLE, SYNTAX_LUA_FILTER, SyntaxSettings, TagMode, defaultSyntaxSettings } from './obsidian-syntax';
+import { ExportWorkspace } from './workspace';
+import { ExportWatcher } from './watch';
+import { PdfPreviewView, VIEW_TYPE_PDF_PREVIEW } from './preview-view';
+import { ExportHistoryEntry, ExportHistoryModal, MAX_HISTORY } from './history';
+import { ExportStatusBar } from './status-bar';
+import { DiagramRenderer, DiagramSettings, defaultDiagramSettings } from './diagrams';
+import { MATTER_POSITIONS, MatterNotes, MatterPosition, mergeMatterNotes, resolveNoteList, substituteVariables } from './matter';
+import { BUNDLE_IMAGES_DIRECTORY, BUNDLE_MAIN_FILE, createZip, finishLatexBundle, relativizePaths } from './latex-bundle';
+import { StarterTemplate, StarterTemplateModal } from './starter-templates';
+import { getVaultPath } from './vault';
 
+// Per-template options are optional; empty or missing values fall back to the global settings
 interface LatexTemplate {
+	// Stable id used for commands and the default template, survives renaming and reordering
+	id: string;
 	name: string;
 	path: string;
+	bibliographyPath?: string;
+	cslPath?: string;
+	pdfEngine?: string;
+	pandocArgs?: string;
+	// YAML mapping of default metadata variables, the note's frontmatter always wins
+	variables?: string;
+	imagesDirectory?: string;
+	useTemplateDirectoryAsResourcePath?: boolean;
+	// YAML mapping of frontmatter field -> name the template expects, an empty name drops the field
+	fieldMapping?: string;
+	// File name pattern replacing the global one
+	outputPattern?: string;
+	// Lua filter id -> enabled, filters without an entry follow their global setting
+	luaFilters?: Record<string, boolean>;
+	// Notes included before the body, after it and as appendix
+	matter?: MatterNotes;
+}
+
+// Pandoc Lua filter from the vault, run in list order
+interface LuaFilter {
+	id: string;
+	path: string;
+	enabled: boolean;
+}
+
+// Per-run options of an export that are not part of the settings
+interface ExportOptions {
+	// Metadata merged over the note's frontmatter for this export only
+	metadata?: Record<string, unknown>;
+	format?: OutputFormatId;
+	// Appended to the pandoc arguments of the template
+	pandocArgs?: string;
+	// Replace the global output directory and file name pattern
+	outputDirectory?: string;
+	outputPattern?: string;
+	// Write the LaTeX source with all its files into a self-contained folder or .zip
+	bundle?: boolean;
+	// Replaces the setting, watch mode always overwrites its PDF
+	conflictMode?: ConflictMode;
+	// Replaces the front and back matter notes of the template per position
+	matter?: MatterNotes;
+	// Recorded in the history so the export can be run again with the preset
+	presetId?: string;
+	// Watch mode exports on every change and would push everything else out of the history
+	skipHistory?: boolean;
+	// Aborting stops the export, also before pandoc started; a batch aborts only its own exports
+	signal?: AbortSignal;
+}
+
+// Outcome of a successful export
+interface ExportResult {
+	outputPath: string;
+	counts: DocumentCounts;
+	// Violated word and page limits from the frontmatter
+	limitProblems: string[];
+	// The note and every note transcluded into it
+	sourceFiles: TFile[];
+}
+
+// Named combination of template, format, arguments and destination with its own command
+interface ExportPreset {
+	id: string;
+	name: string;
+	// Empty for the default template
+	templateId: string;
+	format: OutputFormatId;
+	pandocArgs: string;
+	outputDirectory: string;
+	outputPattern: string;
+	// YAML mapping merged over the note's frontmatter
+	metadata: string;
+	// Replaces the notes of the template per position
+	matter?: MatterNotes;
+}
+
+// Named set of personal metadata that is merged under the frontmatter of every export
+interface MetadataProfile {
+	id: string;
+	name: string;
+	fields: Record<string, string>;
 }
 
 interface UniExportSetting {
+	settingsVersion: number;
 	latexTemplates: LatexTemplate[];
-	activeTemplateIndex: number;
+	// Id of the default template, empty if there is none
+	activeTemplateId: string;
 	outputDirectory: string;
 	imagesDirectory: string;
 	pandocPath: string;
 	additionalPandocArgs: string;
 	useTemplateDirectoryAsResourcePath: boolean;
+	pdfEngine: string;
+	bibliographyPath: string;
+	cslPath: string;
+	batchConcurrency: number;
+	exportTimeout: number;
+	detailedLatexLog: boolean;
+	keepIntermediates: boolean;
+	openLogOnFailure: boolean;
+	bundleAsZip: boolean;
+	checkTemplateVariables: boolean;
+	profiles: MetadataProfile[];
+	// Id of the default profile, empty if there is none
+	activeProfileId: string;
+	formats: Record<OutputFormatId, FormatSettings>;
+	obsidianSyntax: SyntaxSettings;
+	diagrams: DiagramSettings;
+	exportHistory: ExportHistoryEntry[];
+	openPdfIn: 'obsidian' | 'system';
+	luaFilters: LuaFilter[];
+	outputPattern: string;
+	conflictMode: ConflictMode;
+	presets: ExportPreset[];
+	dateFormat: string;
+	dateLocale: string;
 }
 
 const DEFAULT_SETTINGS: UniExportSetting = {
+	settingsVersion: SETTINGS_VERSION,
 	latexTemplates: [],
-	activeTemplateIndex: -1,
+	activeTemplateId: '',
 	outputDirectory: '',
 	imagesDirectory: './templates',
 	pandocPath: 'pandoc',
 	additionalPandocArgs: '',
-	useTemplateDirectoryAsResourcePath: true
+	useTemplateDirectoryAsResourcePath: true,
+	pdfEngine: 'xelatex',
+	bibliographyPath: '',
+	cslPath: '',
+	batchConcurrency: 2,
+	exportTimeout: 300,
+	detailedLatexLog: true,
+	keepIntermediates: false,
+	openLogOnFailure: true,
+	bundleAsZip: true,
+	checkTemplateVariables: true,
+	profiles: [],
+	activeProfileId: '',
+	formats: defaultFormatSettings(),
+	obsidianSyntax: defaultSyntaxSettings(),
+	diagrams: defaultDiagramSettings(),
+	exportHistory: [],
+	openPdfIn: 'obsidian',
+	luaFilters: [],
+	outputPattern: DEFAULT_OUTPUT_PATTERN,
+	conflictMode: 'overwrite',
+	presets: [],
+	dateFormat: 'LL',
+	dateLocale: ''
 }
 
+// Define valid LaTeX file extensions
+const LATEX_EXTENSIONS = ['tex', 'latex', 'ltx'];
+
+// Fields every new profile starts with, matching the example frontmatter
+const PROFILE_FIELDS = ['vorname', 'nachname', 'matrikel', 'email', 'studiengang', 'address'];
+
+// PDF engines pandoc supports for LaTeX templates
+const PDF_ENGINES = ['xelatex', 'lualatex', 'pdflatex', 'latexmk', 'tectonic'];
+
 // File suggestion modal for template selection
 class FileSuggestModal extends Modal {
 	files: string[] = [];
 	suggestEl: HTMLElement;
 	inputEl: HTMLInputElement;
 	onChoose: (result: string) => void;
+	extensions: string[];
+	title: string;
 	
-	constructor(app: App, onChoose: (result: string) => void) {
+	constructor(app: App, onChoose: (result: string) => void, extensions: string[] = LATEX_EXTENSIONS, title = 'Select Template File') {
 		super(app);
 		this.onChoose = onChoose;
+		this.extensions = extensions;
+		this.title = title;
 	}
 	
 	onOpen() {
 		const { contentEl } = this;
 		
-		contentEl.createEl('h2', { text: 'Select Template File' });
+		contentEl.createEl('h2', { text: this.title });
 		
 		// Create an input for manual path entry
 		this.inputEl = contentEl.createEl('input', {
@@ -87,13 +253,10 @@ class FileSuggestModal extends Modal {
 	async searchFiles() {
 		this.files = [];
 		
-		// Define valid LaTeX file extensions
-		const latexExtensions = ['tex', 'latex', 'ltx'];
-		
-		// Search all LaTeX files in the vault
+		// Search all files with a matching extension in the vault
 		const files = this.app.vault.getFiles();
 		for (const file of files) {
-			if (latexExtensions.includes(file.extension.toLowerCase())) {
+			if (this.extensions.includes(file.extension.toLowerCase())) {
 				this.files.push(file.path);
 			}
 		}
@@ -120,7 +283,7 @@ class FileSuggestModal extends Modal {
 		
 		if (filesToRender.length === 0) {
 			this.suggestEl.createEl('div', { 
-				text: 'No .tex files found. You can still enter a path manually.',
+				text: `No .${this.extensions[0]} files found. You can still enter a path manually.`,
 				cls: 'template-file-empty'
 			});
 			return;
@@ -158,27 +321,336 @@ class FileSuggestModal extends Modal {
 	}
 }
 
+// Modal for the per-template pandoc options
+class TemplateSettingsModal extends Modal {
+	plugin: UniExport;
+	template: LatexTemplate;
+
+	constructor(app: App, plugin: UniExport, template: LatexTemplate) {
+		super(app);
+		this.plugin = plugin;
+		this.template = template;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: `Template: ${this.template.name}` });
+		contentEl.createEl('p', {
+			text: 'Empty fields use the global settings.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(contentEl)
+			.setName('PDF Engine')
+			.setDesc('LaTeX engine used to create the PDF')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', `Global default (${this.plugin.settings.pdfEngine})`);
+				PDF_ENGINES.forEach((engine) => dropdown.addOption(engine, engine));
+				dropdown
+					.setValue(this.template.pdfEngine || '')
+					.onChange(async (value) => {
+						this.template.pdfEngine = value;
+						await this.save();
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Pandoc Arguments')
+			.setDesc('Replaces the global additional pandoc arguments for this template')
+			.addText(text => text
+				.setPlaceholder(this.plugin.settings.additionalPandocArgs || '--toc --number-sections')
+				.setValue(this.template.pandocArgs || '')
+				.onChange(async (value) => {
+					this.template.pandocArgs = value;
+					await this.save();
+				}));
+
+		new Setting(contentEl)
+			.setName('Default Variables')
+			.setDesc('YAML variables passed to the template. Values in the note\'s frontmatter take precedence.')
+			.addTextArea(text => {
+				text
+					.setPlaceholder('lang: de-DE\nfontsize: 12pt')
+					.setValue(this.template.variables || '')
+					.onChange(async (value) => {
+						this.template.variables = value;
+						await this.save();
+					});
+				text.inputEl.rows = 6;
+				text.inputEl.addClass('uni-export-textarea');
+			});
+
+		new Setting(contentEl)
+			.setName('Field Mapping')
+			.setDesc('YAML mapping from frontmatter and profile fields to the names this template uses. Map a field to an empty value to leave it out.')
+			.addTextArea(text => {
+				text
+					.setPlaceholder('nachname: author-last\nmatrikel: matriculation\nkurztitel:')
+					.setValue(this.template.fieldMapping || '')
+					.onChange(async (value) => {
+						this.template.fieldMapping = value;
+						await this.save();
+					});
+				text.inputEl.rows = 4;
+				text.inputEl.addClass('uni-export-textarea');
+			});
+
+		addMatterSettings(contentEl, this.template, 'One note per line, {{field}} in the notes is replaced with the frontmatter of the exported note.', () => this.save());
+
+		new Setting(contentEl)
+			.setName('Output File Name')
+			.setDesc('Pattern for the file name of exports with this template, see the global setting for placeholders')
+			.addText(text => text
+				.setPlaceholder(this.plugin.settings.outputPattern || DEFAULT_OUTPUT_PATTERN)
+				.setValue(this.template.outputPattern || '')
+				.onChange(async (value) => {
+					this.template.outputPattern = value;
+					await this.save();
+				}));
+
+		new Setting(contentEl)
+			.setName('Images Directory')
+			.setDesc('Resource directory for this template (relative to vault root)')
+			.addText(text => text
+				.setPlaceholder(this.plugin.settings.imagesDirectory || 'images')
+				.setValue(this.template.imagesDirectory || '')
+				.onChange(async (value) => {
+					this.template.imagesDirectory = value;
+					await this.save();
+				}));
+
+		new Setting(contentEl)
+			.setName('Use Template Directory')
+			.setDesc('Use the template directory as a resource path when no images directory is set')
+			.addDropdown(dropdown => dropdown
+				.addOption('', 'Global setting')
+				.addOption('yes', 'Yes')
+				.addOption('no', 'No')
+				.setValue(this.template.useTemplateDirectoryAsResourcePath === undefined ? '' :
+					this.template.useTemplateDirectoryAsResourcePath ? 'yes' : 'no')
+				.onChange(async (value) => {
+					this.template.useTemplateDirectoryAsResourcePath = value === '' ? undefined : value === 'yes';
+					await this.save();
+				}));
+
+		this.plugin.settings.luaFilters.forEach((filter) => {
+			new Setting(contentEl)
+				.setName(`Lua Filter: ${path.basename(filter.path) || 'unnamed'}`)
+				.setDesc(filter.path)
+				.addDropdown(dropdown => dropdown
+					.addOption('', `Global setting (${filter.enabled ? 'on' : 'off'})`)
+					.addOption('yes', 'On')
+					.addOption('no', 'Off')
+					.setValue(this.template.luaFilters?.[filter.id] === undefined ? '' :
+						this.template.luaFilters[filter.id] ? 'yes' : 'no')
+					.onChange(async (value) => {
+						const overrides = this.template.luaFilters ?? {};
+						if (value === '') {
+							delete overrides[filter.id];
+						} else {
+							overrides[filter.id] = value === 'yes';
+						}
+						this.template.luaFilters = overrides;
+						await this.save();
+					}));
+		});
+
+		new Setting(contentEl)
+			.setName('Bibliography File')
+			.setDesc('Bibliography for this template (relative to vault root)')
+			.addText(text => text
+				.setPlaceholder(this.plugin.settings.bibliographyPath || 'references.bib')
+				.setValue(this.template.bibliographyPath || '')
+				.onChange(async (value) => {
+					this.template.bibliographyPath = value;
+					await this.save();
+				}));
+
+		new Setting(contentEl)
+			.setName('Citation Style (CSL)')
+			.setDesc('CSL style for this template (relative to vault root)')
+			.addText(text => text
+				.setPlaceholder(this.plugin.settings.cslPath || 'styles/style.csl')
+				.setValue(this.template.cslPath || '')
+				.onChange(async (value) => {
+					this.template.cslPath = value;
+					await this.save();
+				}));
+	}
+
+	async save() {
+		await this.plugin.saveSettings();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+// Note lists for the front and back matter of a template or preset
+function addMatterSettings(containerEl: HTMLElement, owner: { matter?: MatterNotes }, description: string, save: () => Promise<void>) {
+	MATTER_POSITIONS.forEach((position) => {
+		new Setting(containerEl)
+			.setName(position.label)
+			.setDesc(`${position.description}. ${description}`)
+			.addTextArea(text => {
+				text
+					.setPlaceholder(position.id === 'after' ? '[[Eidesstattliche Erklärung]]' : position.id === 'before' ? '[[Abstract]]' : '[[Anhang]]')
+					.setValue(owner.matter?.[position.id] || '')
+					.onChange(async (value) => {
+						owner.matter = Object.assign({}, owner.matter, { [position.id]: value });
+						await save();
+					});
+				text.inputEl.rows = 2;
+				text.inputEl.addClass('uni-export-textarea');
+			});
+	});
+}
+
+// Modal for the options of an export preset
+class PresetSettingsModal extends Modal {
+	plugin: UniExport;
+	preset: ExportPreset;
+	// Lets the settings tab show the new template and format
+	onClosed: () => void;
+
+	constructor(app: App, plugin: UniExport, preset: ExportPreset, onClosed: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.preset = preset;
+		this.onClosed = onClosed;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: `Preset: ${this.preset.name}` });
+		contentEl.createEl('p', {
+			text: 'Empty fields use the settings of the template or the global settings.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(contentEl)
+			.setName('Template')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Default template');
+				this.plugin.settings.latexTemplates.forEach((template) => dropdown.addOption(template.id, template.name));
+				dropdown
+					.setValue(this.preset.templateId)
+					.onChange(async (value) => {
+						this.preset.templateId = value;
+						await this.save();
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Format')
+			.addDropdown(dropdown => {
+				OUTPUT_FORMATS.forEach((format) => dropdown.addOption(format.id, format.label));
+				dropdown
+					.setValue(this.preset.format)
+					.onChange(async (value) => {
+						this.preset.format = value as OutputFormatId;
+						await this.save();
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Extra Pandoc Arguments')
+			.setDesc('Added after the arguments of the template')
+			.addText(text => text
+				.setPlaceholder('-V draft --number-sections')
+				.setValue(this.preset.pandocArgs)
+				.onChange(async (value) => {
+					this.preset.pandocArgs = value;
+					await this.save();
+				}));
+
+		new Setting(contentEl)
+			.setName('Output Directory')
+			.setDesc('Relative to vault root')
+			.addText(text => text
+				.setPlaceholder(this.plugin.settings.outputDirectory || 'Abgabe')
+				.setValue(this.preset.outputDirectory)
+				.onChange(async (value) => {
+					this.preset.outputDirectory = value;
+					await this.save();
+				}));
+
+		new Setting(contentEl)
+			.setName('Output File Name')
+			.setDesc('Pattern for the file name, see the global setting for placeholders')
+			.addText(text => text
+				.setPlaceholder(this.plugin.settings.outputPattern || DEFAULT_OUTPUT_PATTERN)
+				.setValue(this.preset.outputPattern)
+				.onChange(async (value) => {
+					this.preset.outputPattern = value;
+					await this.save();
+				}));
+
+		new Setting(contentEl)
+			.setName('Metadata')
+			.setDesc('YAML variables that replace the values in the note\'s frontmatter for this preset')
+			.addTextArea(text => {
+				text
+					.setPlaceholder('draft: true\nlinenumbers: true')
+					.setValue(this.preset.metadata)
+					.onChange(async (value) => {
+						this.preset.metadata = value;
+						await this.save();
+					});
+				text.inputEl.rows = 6;
+				text.inputEl.addClass('uni-export-textarea');
+			});
+
+		addMatterSettings(contentEl, this.preset, 'One note per line, replaces the notes of the template. Leave empty to use those of the template.', () => this.save());
+	}
+
+	async save() {
+		await this.plugin.saveSettings();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.onClosed();
+	}
+}
+
 export default class UniExport extends Plugin {
 	settings: UniExportSetting;
 	styleEl: HTMLStyleElement | null = null;
+	// One controller per export, the "Cancel export" command aborts them all
+	runningExports: Set<AbortController> = new Set();
+	// Ids of the per-template and per-preset commands currently registered
+	templateCommandIds: string[] = [];
+	presetCommandIds: string[] = [];
+	exportLog: ExportLog = new ExportLog();
+	watcher: ExportWatcher = new ExportWatcher((notePath, templateId) => this.runWatchedExport(notePath, templateId));
+	statusBar: ExportStatusBar;
 
 	async onload() {
 		await this.loadSettings();
 
+		// Show running exports and the result of the last one, a click opens the history
+		this.statusBar = new ExportStatusBar(this.addStatusBarItem(), () => this.openHistory());
+
 		// Add a ribbon icon for converting current file
 		this.addRibbonIcon('file-pdf', 'Convert to PDF', async (evt) => {
 			const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
 			if (activeView && activeView.file) {
 				if (this.settings.latexTemplates.length === 0) {
-					new Notice('No templates defined. Please add a template in settings.');
+					new Notice('No templates defined. Add one in settings or run "Create template from starter".');
 					return;
 				}
 				
-				if (this.settings.latexTemplates.length === 1 || this.settings.activeTemplateIndex >= 0) {
-					// If only one template or an active template is already selected, use it directly
-					const templateIndex = this.settings.activeTemplateIndex >= 0 ? 
-						this.settings.activeTemplateIndex : 0;
-					await this.convertToPdf(activeView.file, templateIndex);
+				// If only one template or an active template is already selected, use it directly
+				// Presets always need the menu to be reachable
+				const defaultTemplate = this.getDefaultTemplate();
+				if (defaultTemplate && this.settings.presets.length === 0) {
+					await this.convertToPdf(activeView.file, defaultTemplate.id);
 				} else {
 					// Show template selection menu
 					this.showTemplateMenu(evt, activeView.file);
@@ -194,9 +666,151 @@ export default class UniExport extends Plugin {
 			name: 'Convert to PDF with active template',
 			checkCallback: (checking: boolean) => {
 				const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (activeView && activeView.file && this.settings.activeTemplateIndex >= 0) {
+				const activeTemplate = this.getTemplate(this.settings.activeTemplateId);
+				if (activeView && activeView.file && activeTemplate) {
+					if (!checking) {
+						this.convertToPdf(activeView.file, activeTemplate.id);
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		// Add the export log view
+		this.registerView(VIEW_TYPE_EXPORT_LOG, (leaf) => new ExportLogView(leaf, this.exportLog));
+
+		this.addCommand({
+			id: 'open-export-log',
+			name: 'Open export log',
+			callback: () => this.activateLogView()
+		});
+
+		// Add the live preview of watched notes
+		this.registerView(VIEW_TYPE_PDF_PREVIEW, (leaf) => new PdfPreviewView(leaf));
+
+		this.addCommand({
+			id: 'toggle-watch-mode',
+			name: 'Toggle watch mode for current note',
+			checkCallback: (checking: boolean) => {
+				const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!activeView || !activeView.file || (!this.getDefaultTemplate() && !this.watcher.isWatching(activeView.file.path))) {
+					return false;
+				}
+				if (!checking) {
+					this.toggleWatch(activeView.file);
+				}
+				return true;
+			}
+		});
+
+		// Re-export watched notes when they, their transclusions or their template change
+		this.registerEvent(this.app.vault.on('modify', (file) => this.watcher.fileChanged(file.path)));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.watcher.fileRenamed(oldPath, file.path)));
+		this.registerEvent(this.app.vault.on('delete', (file) => this.watcher.unwatch(file.path)));
+
+		// Add commands for the export history
+		this.addCommand({
+			id: 'show-export-history',
+			name: 'Show export history',
+			callback: () => this.openHistory()
+		});
+
+		this.addCommand({
+			id: 'rerun-last-export',
+			name: 'Re-run last export',
+			checkCallback: (checking: boolean) => {
+				const entry = this.settings.exportHistory[0];
+				if (!entry) {
+					return false;
+				}
+				if (!checking) {
+					this.rerunExport(entry);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'open-last-pdf',
+			name: 'Open last PDF',
+			checkCallback: (checking: boolean) => {
+				const entry = this.settings.exportHistory.find((e) => e.success && e.outputPath.toLowerCase().endsWith('.pdf'));
+				if (!entry) {
+					return false;
+				}
+				if (!checking) {
+					this.openOutput(entry);
+				}
+				return true;
+			}
+		});
+
+		// Add a command to stop running exports
+		this.addCommand({
+			id: 'cancel-export',
+			name: 'Cancel export',
+			checkCallback: (checking: boolean) => {
+				if (this.runningExports.size === 0) {
+					return false;
+				}
+				if (!checking) {
+					const count = this.cancelExports();
+					new Notice(`Cancelled ${count} running export${count === 1 ? '' : 's'}`);
+				}
+				return true;
+			}
+		});
+
+		// Add a command to copy a built-in template into the vault
+		this.addCommand({
+			id: 'create-template-from-starter',
+			name: 'Create template from starter',
+			callback: () => this.openStarterTemplates()
+		});
+
+		// Add a command to check pandoc, LaTeX and the templates
+		this.addCommand({
+			id: 'check-setup',
+			name: 'Check setup',
+			callback: () => this.openSetupCheck()
+		});
+
+		// Add a command for each output format besides PDF
+		OUTPUT_FORMATS.forEach((format) => {
+			if (format.id === 'pdf') {
+				return;
+			}
+			this.addCommand({
+				id: `export-${format.id}`,
+				name: `Export to ${format.label}`,
+				checkCallback: (checking: boolean) => {
+					const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+					const template = this.getDefaultTemplate();
+					if (!activeView || !activeView.file || !this.settings.formats[format.id].enabled) {
+						return false;
+					}
+					if (format.usesLatexTemplate && !template) {
+						return false;
+					}
+					if (!checking) {
+						this.convertFile(activeView.file, template ? template.id : null, format.id);
+					}
+					return true;
+				}
+			});
+		});
+
+		// Add a command to hand the LaTeX source to supervisors or co-authors in Overleaf
+		this.addCommand({
+			id: 'export-latex-bundle',
+			name: 'Export LaTeX bundle',
+			checkCallback: (checking: boolean) => {
+				const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				const template = this.getDefaultTemplate();
+				if (activeView && activeView.file && template) {
 					if (!checking) {
-						this.convertToPdf(activeView.file, this.settings.activeTemplateIndex);
+						this.convertFile(activeView.file, template.id, 'latex', { bundle: true });
 					}
 					return true;
 				}
@@ -204,75 +818,34 @@ export default class UniExport extends Plugin {
 			}
 		});
 
-		// Add commands for each template
+		// Add commands for each template and preset
 		this.refreshTemplateCommands();
+		this.refreshPresetCommands();
 
 		// Add a context menu item for files in the explorer
 		this.registerEvent(
 			this.app.workspace.on('file-menu', (menu, file) => {
-				// Only show for markdown files
-				if (!(file instanceof TFile) || file.extension !== 'md') {
-					return;
-				}
-		
-				// If no templates, add disabled menu item
-				if (this.settings.latexTemplates.length === 0) {
-					menu.addItem((item) => {
-						item
-							.setTitle('Convert to PDF')
-							.setIcon('file-pdf')
-							.setDisabled(true)
-							.onClick(() => {
-								new Notice('Please add a template in the plugin settings first');
-							});
-					});
+				// Folders get a batch export of all notes inside them
+				if (file instanceof TFolder) {
+					this.addBatchMenuItems(menu, 'Export folder to PDF', [file]);
 					return;
 				}
-		
-				// If only one template, add single menu item
-				if (this.settings.latexTemplates.length === 1) {
-					menu.addItem((item) => {
-						item
-							.setTitle('Convert to PDF')
-							.setIcon('file-pdf')
-							.onClick(() => this.convertToPdf(file, 0));
-					});
+
+				// Only show for markdown files
+				if (!(file instanceof TFile) || file.extension !== 'md') {
 					return;
 				}
 		
-				// For multiple templates, create a submenu structure
-				menu.addItem((item) => {
-					item
-						.setTitle('Convert to PDF')
-						.setIcon('file-pdf');
-				});
-		
-				// Add submenu items in a separate section
-				if (this.settings.activeTemplateIndex >= 0) {
-					const activeTemplate = this.settings.latexTemplates[this.settings.activeTemplateIndex];
-					menu.addItem((item) => {
-						item
-							.setTitle(`${activeTemplate.name} (Default)`)
-							.setIcon('star-list')
-							.setSection('convert-pdf')
-							.onClick(() => this.convertToPdf(file, this.settings.activeTemplateIndex));
-					});
-				}
-		
-				// Add separator
-				menu.addSeparator();
-		
-				// Add other templates
-				this.settings.latexTemplates.forEach((template, index) => {
-					if (index !== this.settings.activeTemplateIndex) {
-						menu.addItem((item) => {
-							item
-								.setTitle(template.name)
-								.setSection('convert-pdf')
-								.onClick(() => this.convertToPdf(file, index));
-						});
-					}
-				});
+				this.addPdfMenuItems(menu, file);
+				this.addFormatMenuItems(menu, file);
+				this.addPresetMenuItems(menu, file);
+			})
+		);
+
+		// Add a context menu item for multiple selected files and folders
+		this.registerEvent(
+			this.app.workspace.on('files-menu', (menu, files) => {
+				this.addBatchMenuItems(menu, 'Export selection to PDF', files);
 			})
 		);
 
@@ -314,51 +887,412 @@ export default class UniExport extends Plugin {
 			.template-file-item:hover {
 				background-color: var(--background-secondary);
 			}
+			.uni-export-drag-handle {
+				cursor: grab;
+				color: var(--text-muted);
+				padding-right: 8px;
+			}
+			.setting-item.is-dragging {
+				opacity: 0.5;
+			}
+			.setting-item.is-drag-target {
+				border-top: 2px solid var(--interactive-accent);
+			}
+			.uni-export-check-item {
+				padding: 6px 0;
+				border-bottom: 1px solid var(--background-modifier-border);
+			}
+			.uni-export-check-item.is-ok .uni-export-check-label {
+				color: var(--text-success);
+			}
+			.uni-export-check-item.is-warning .uni-export-check-label {
+				color: var(--text-warning);
+			}
+			.uni-export-check-item.is-error .uni-export-check-label {
+				color: var(--text-error);
+			}
+			.uni-export-check-item.is-info .uni-export-check-label {
+				color: var(--text-muted);
+			}
+			.uni-export-check-detail {
+				color: var(--text-muted);
+				font-size: var(--font-smaller);
+				white-space: pre-wrap;
+			}
+			.uni-export-profile {
+				margin-bottom: 16px;
+			}
+			.uni-export-textarea {
+				width: 100%;
+				font-family: var(--font-monospace);
+			}
+			.uni-export-log-header {
+				display: flex;
+				justify-content: space-between;
+				align-items: center;
+			}
+			.uni-export-log-run {
+				margin-bottom: 8px;
+				border-left: 3px solid var(--text-success);
+				padding-left: 8px;
+			}
+			.uni-export-log-run.is-failed {
+				border-left-color: var(--text-error);
+			}
+			.uni-export-log-run summary {
+				cursor: pointer;
+			}
+			.uni-export-log-diagnostic {
+				margin: 6px 0;
+				padding: 4px 8px;
+				border-radius: 4px;
+				background-color: var(--background-secondary);
+			}
+			.uni-export-log-diagnostic.is-error .uni-export-log-message {
+				color: var(--text-error);
+			}
+			.uni-export-log-diagnostic.is-warning .uni-export-log-message {
+				color: var(--text-warning);
+			}
+			.uni-export-log-hint {
+				color: var(--text-muted);
+				font-size: var(--font-smaller);
+			}
+			.uni-export-log-location {
+				font-size: var(--font-smaller);
+				cursor: pointer;
+			}
+			.uni-export-log-run pre {
+				max-height: 300px;
+				overflow: auto;
+				font-size: var(--font-smaller);
+				white-space: pre-wrap;
+			}
+			.uni-export-preview-status {
+				position: sticky;
+				top: 0;
+				z-index: 1;
+				padding: 4px 8px;
+				background-color: var(--background-primary);
+				font-size: var(--font-smaller);
+				color: var(--text-muted);
+			}
+			.uni-export-preview-status.is-failed {
+				color: var(--text-error);
+			}
+			.uni-export-preview-error {
+				max-height: 200px;
+				overflow: auto;
+				font-size: var(--font-smaller);
+				white-space: pre-wrap;
+				color: var(--text-error);
+			}
+			.uni-export-preview-pages {
+				display: flex;
+				flex-direction: column;
+				align-items: center;
+				gap: 12px;
+				padding: 8px 0;
+			}
+			.uni-export-preview-page {
+				box-shadow: var(--shadow-s);
+			}
+			.uni-export-status {
+				cursor: pointer;
+			}
+			.uni-export-status.is-failed {
+				color: var(--text-error);
+			}
+			.uni-export-history-list {
+				max-height: 500px;
+				overflow-y: auto;
+				margin: 10px 0;
+			}
+			.uni-export-history-item {
+				padding: 6px 0;
+				border-bottom: 1px solid var(--background-modifier-border);
+			}
+			.uni-export-history-item.is-failed .uni-export-history-title {
+				color: var(--text-error);
+			}
+			.uni-export-history-details {
+				font-size: var(--font-smaller);
+				color: var(--text-muted);
+			}
+			.uni-export-history-actions {
+				display: flex;
+				gap: 12px;
+				font-size: var(--font-smaller);
+			}
+			.uni-export-history-error {
+				max-height: 100px;
+				overflow: auto;
+				font-size: var(--font-smaller);
+				white-space: pre-wrap;
+			}
+			.uni-export-queue-list {
+				max-height: 400px;
+				overflow-y: auto;
+				margin: 10px 0;
+			}
+			.uni-export-queue-item {
+				display: flex;
+				flex-wrap: wrap;
+				justify-content: space-between;
+				padding: 4px 0;
+				border-bottom: 1px solid var(--background-modifier-border);
+			}
+			.uni-export-queue-item.is-running .uni-export-queue-status {
+				color: var(--text-accent);
+			}
+			.uni-export-queue-item.is-done .uni-export-queue-status {
+				color: var(--text-success);
+			}
+			.uni-export-queue-item.is-failed .uni-export-queue-status {
+				color: var(--text-error);
+			}
+			.uni-export-queue-error {
+				width: 100%;
+				max-height: 120px;
+				overflow: auto;
+				font-size: var(--font-smaller);
+				white-space: pre-wrap;
+			}
 		`;
 	}
 
 	refreshTemplateCommands() {
-		// Get all commands
-		const commands = (this.app as any).commands.listCommands();
-		
-		// Find and remove our template commands
-		commands.forEach((cmd: Command) => {
-			if (cmd.id.startsWith('uni-export:template-')) {
-				(this.app as any).commands.removeCommand(cmd.id);
-			}
-		});
+		// Remove the template commands registered before, templates may have been renamed or deleted
+		this.templateCommandIds.forEach((id) => this.removeCommand(id));
 
-		// Add new commands for each template
-		this.settings.latexTemplates.forEach((template, index) => {
+		// Add new commands for each template, the id keeps hotkeys assigned when templates move
+		this.templateCommandIds = this.settings.latexTemplates.map((template) => {
+			const id = `template-${template.id}`;
 			this.addCommand({
-				id: `template-${index}`,
+				id,
 				name: `Convert to PDF with template: ${template.name}`,
 				checkCallback: (checking: boolean) => {
 					const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
 					if (activeView && activeView.file) {
 						if (!checking) {
-							this.convertToPdf(activeView.file, index);
+							this.convertToPdf(activeView.file, template.id);
 						}
 						return true;
 					}
 					return false;
 				}
 			});
+			return id;
 		});
 	}
 
-	showTemplateMenu(evt: MouseEvent, file: TFile) {
-		const menu = new Menu();
-		
-		this.settings.latexTemplates.forEach((template, index) => {
-			menu.addItem((item) => {
-				item
-					.setTitle(template.name)
-					.onClick(() => {
-						this.convertToPdf(file, index);
-					});
-			});
+	refreshPresetCommands() {
+		this.presetCommandIds.forEach((id) => this.removeCommand(id));
+
+		this.presetCommandIds = this.settings.presets.map((preset) => {
+			const id = `preset-${preset.id}`;
+			this.addCommand({
+				id,
+				name: `Export with preset: ${preset.name}`,
+				checkCallback: (checking: boolean) => {
+					const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+					if (activeView && activeView.file) {
+						if (!checking) {
+							this.convertWithPreset(activeView.file, preset.id);
+						}
+						return true;
+					}
+					return false;
+				}
+			});
+			return id;
+		});
+	}
+
+	// Add one entry per preset
+	addPresetMenuItems(menu: Menu, file: TFile) {
+		this.settings.presets.forEach((preset) => {
+			menu.addItem((item) => {
+				item
+					.setTitle(`Export: ${preset.name}`)
+					.setIcon(getOutputFormat(preset.format).icon)
+					.setSection('convert-pdf')
+					.onClick(() => this.convertWithPreset(file, preset.id));
+			});
+		});
+	}
+
+	// Add the PDF entries with one item per template
+	addPdfMenuItems(menu: Menu, file: TFile) {
+		// If no templates, add disabled menu item
+		if (this.settings.latexTemplates.length === 0) {
+			menu.addItem((item) => {
+				item
+					.setTitle('Convert to PDF')
+					.setIcon('file-pdf')
+					.setDisabled(true)
+					.onClick(() => {
+						new Notice('Please add a template in the plugin settings first');
+					});
+			});
+			return;
+		}
+	
+		// If only one template, add single menu item
+		if (this.settings.latexTemplates.length === 1) {
+			menu.addItem((item) => {
+				item
+					.setTitle('Convert to PDF')
+					.setIcon('file-pdf')
+					.onClick(() => this.convertToPdf(file, this.settings.latexTemplates[0].id));
+			});
+			return;
+		}
+	
+		// For multiple templates, create a submenu structure
+		menu.addItem((item) => {
+			item
+				.setTitle('Convert to PDF')
+				.setIcon('file-pdf');
+		});
+	
+		// Add submenu items in a separate section
+		const activeTemplate = this.getTemplate(this.settings.activeTemplateId);
+		if (activeTemplate) {
+			menu.addItem((item) => {
+				item
+					.setTitle(`${activeTemplate.name} (Default)`)
+					.setIcon('star-list')
+					.setSection('convert-pdf')
+					.onClick(() => this.convertToPdf(file, activeTemplate.id));
+			});
+		}
+	
+		// Add separator
+		menu.addSeparator();
+	
+		// Add other templates
+		this.settings.latexTemplates.forEach((template) => {
+			if (template !== activeTemplate) {
+				menu.addItem((item) => {
+					item
+						.setTitle(template.name)
+						.setSection('convert-pdf')
+						.onClick(() => this.convertToPdf(file, template.id));
+				});
+			}
+		});
+	}
+
+	// Add an entry for each enabled format besides PDF
+	addFormatMenuItems(menu: Menu, file: TFile) {
+		const template = this.getDefaultTemplate();
+		OUTPUT_FORMATS.forEach((format) => {
+			if (format.id === 'pdf' || !this.settings.formats[format.id].enabled) {
+				return;
+			}
+			if (format.usesLatexTemplate && !template) {
+				return;
+			}
+			menu.addItem((item) => {
+				item
+					.setTitle(`Export to ${format.label}`)
+					.setIcon(format.icon)
+					.setSection('convert-pdf')
+					.onClick(() => this.convertFile(file, template ? template.id : null, format.id));
+			});
+		});
+
+		if (template) {
+			menu.addItem((item) => {
+				item
+					.setTitle('Export LaTeX bundle')
+					.setIcon('package')
+					.onClick(() => this.convertFile(file, template.id, 'latex', { bundle: true }));
+			});
+		}
+	}
+
+	getTemplate(id: string | null): LatexTemplate | null {
+		return this.settings.latexTemplates.find((template) => template.id === id) ?? null;
+	}
+
+	// Template used when the user makes no explicit choice, null if there is none
+	getDefaultTemplate(): LatexTemplate | null {
+		const activeTemplate = this.getTemplate(this.settings.activeTemplateId);
+		if (activeTemplate) {
+			return activeTemplate;
+		}
+		return this.settings.latexTemplates.length === 1 ? this.settings.latexTemplates[0] : null;
+	}
+
+	addBatchMenuItems(menu: Menu, title: string, selection: TAbstractFile[]) {
+		const files = collectMarkdownFiles(selection);
+		if (files.length === 0 || this.settings.latexTemplates.length === 0) {
+			return;
+		}
+
+		// Use the default template directly, otherwise offer one entry per template
+		const defaultTemplate = this.getDefaultTemplate();
+		if (defaultTemplate) {
+			menu.addItem((item) => {
+				item
+					.setTitle(`${title} (${files.length} files)`)
+					.setIcon('file-pdf')
+					.onClick(() => this.exportFiles(files, defaultTemplate.id));
+			});
+			return;
+		}
+
+		this.settings.latexTemplates.forEach((template) => {
+			menu.addItem((item) => {
+				item
+					.setTitle(`${title} (${files.length} files): ${template.name}`)
+					.setIcon('file-pdf')
+					.setSection('convert-pdf')
+					.onClick(() => this.exportFiles(files, template.id));
+			});
+		});
+	}
+
+	async exportFiles(files: TFile[], templateId: string) {
+		// Cancelling the batch stops its own exports, not single exports or watch mode running beside it
+		const controller = new AbortController();
+		await runBatchExport(
+			this.app,
+			files,
+			this.settings.batchConcurrency,
+			(file) => this.exportFile(file, templateId, { signal: controller.signal }).then((result) => result.outputPath),
+			() => controller.abort()
+		);
+	}
+
+	showTemplateMenu(evt: MouseEvent, file: TFile) {
+		const menu = new Menu();
+		
+		this.settings.latexTemplates.forEach((template) => {
+			menu.addItem((item) => {
+				item
+					.setTitle(template.name)
+					.onClick(() => {
+						this.convertToPdf(file, template.id);
+					});
+			});
 		});
+
+		if (this.settings.presets.length > 0) {
+			menu.addSeparator();
+			this.settings.presets.forEach((preset) => {
+				menu.addItem((item) => {
+					item
+						.setTitle(`Preset: ${preset.name}`)
+						.setIcon(getOutputFormat(preset.format).icon)
+						.onClick(() => {
+							this.convertWithPreset(file, preset.id);
+						});
+				});
+			});
+		}
 		
 		// Add option to set active template
 		menu.addSeparator();
@@ -377,13 +1311,13 @@ export default class UniExport extends Plugin {
 	showSetDefaultTemplateMenu(evt: MouseEvent) {
 		const menu = new Menu();
 		
-		this.settings.latexTemplates.forEach((template, index) => {
+		this.settings.latexTemplates.forEach((template) => {
 			menu.addItem((item) => {
 				item
 					.setTitle(template.name)
-					.setChecked(index === this.settings.activeTemplateIndex)
+					.setChecked(template.id === this.settings.activeTemplateId)
 					.onClick(async () => {
-						this.settings.activeTemplateIndex = index;
+						this.settings.activeTemplateId = template.id;
 						await this.saveSettings();
 						new Notice(`Default template set to: ${template.name}`);
 					});
@@ -395,9 +1329,9 @@ export default class UniExport extends Plugin {
 		menu.addItem((item) => {
 			item
 				.setTitle('Clear default template')
-				.setChecked(this.settings.activeTemplateIndex === -1)
+				.setChecked(!this.getTemplate(this.settings.activeTemplateId))
 				.onClick(async () => {
-					this.settings.activeTemplateIndex = -1;
+					this.settings.activeTemplateId = '';
 					await this.saveSettings();
 					new Notice('Default template cleared');
 				});
@@ -407,6 +1341,11 @@ export default class UniExport extends Plugin {
 	}
 
 	onunload() {
+		// Stop watching and exports that are still running
+		this.watcher.unwatchAll();
+		this.cancelExports();
+		this.statusBar?.stopTimer();
+
 		// Clean up styles
 		if (this.styleEl && this.styleEl.parentNode) {
 			this.styleEl.parentNode.removeChild(this.styleEl);
@@ -414,273 +1353,1557 @@ export default class UniExport extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// A fresh install has no data and starts at the current version
+		const data = await this.loadData();
+		const migrated = data ? migrateSettings(data) : false;
+
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// Formats added in later versions are missing from older data.json files
+		this.settings.formats = Object.assign(defaultFormatSettings(), this.settings.formats);
+		this.settings.obsidianSyntax = Object.assign(defaultSyntaxSettings(), this.settings.obsidianSyntax);
+		this.settings.diagrams = Object.assign(defaultDiagramSettings(), this.settings.diagrams);
+
+		// Save right away so a failed export can't leave half-migrated settings behind
+		if (migrated) {
+			await this.saveData(this.settings);
+		}
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 		this.refreshTemplateCommands();
+		this.refreshPresetCommands();
 	}
 
-	// Extract YAML frontmatter from markdown content
-	extractFrontmatter(content: string): Record<string, any> {
-		const frontmatterRegex = /^---\s*([\s\S]*?)\s*---/;
-		const match = content.match(frontmatterRegex);
-		
-		if (match && match[1]) {
+	// Metadata of a note for a template: the profile and the template defaults under the converted frontmatter
+	// Profile and frontmatter fields are renamed with the field mapping of the template
+	getNoteMetadata(file: TFile, frontmatter: Record<string, unknown>, template: LatexTemplate, profile: MetadataProfile | null): Record<string, unknown> {
+		const mapping = this.parseYamlMapping(template.fieldMapping, `Field mapping of template "${template.name}"`);
+		const converted = convertFrontmatter(this.app, file, frontmatter, {
+			dateFormat: this.settings.dateFormat,
+			dateLocale: this.settings.dateLocale
+		});
+
+		return Object.assign(
+			{},
+			remapFields(this.getProfileMetadata(profile), mapping),
+			this.parseTemplateVariables(template),
+			remapFields(converted, mapping)
+		);
+	}
+
+	// Metadata for the output file name: the same fields as for the document, but with the frontmatter values
+	// as written, so dates stay sortable (2025-03-01) instead of the display format of the document
+	getOutputPatternMetadata(frontmatter: Record<string, unknown>, template: LatexTemplate, profile: MetadataProfile | null, overrides?: Record<string, unknown>): Record<string, unknown> {
+		const mapping = this.parseYamlMapping(template.fieldMapping, `Field mapping of template "${template.name}"`);
+		return Object.assign(
+			{},
+			remapFields(this.getProfileMetadata(profile), mapping),
+			this.parseTemplateVariables(template),
+			remapFields(frontmatter, mapping),
+			overrides
+		);
+	}
+
+	// Add a run with its parsed diagnostics to the export log
+	async recordRun(file: TFile, template: LatexTemplate, format: OutputFormat, startedAt: number, command: string, output: string, sourceFiles: TFile[], error?: string, extra: { summary?: string, diagnostics?: Diagnostic[] } = {}) {
+		const diagnostics = [...(extra.diagnostics ?? []), ...parseDiagnostics(output)];
+		await locateDiagnostics(this.app, diagnostics, sourceFiles);
+
+		this.exportLog.add({
+			file,
+			templateName: template.name,
+			formatLabel: format.label,
+			startedAt,
+			finishedAt: Date.now(),
+			command,
+			output,
+			success: error === undefined,
+			error,
+			summary: extra.summary,
+			diagnostics
+		});
+	}
+
+	async activateLogView() {
+		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_EXPORT_LOG);
+		if (existing.length > 0) {
+			this.app.workspace.revealLeaf(existing[0]);
+			return;
+		}
+
+		const leaf = this.app.workspace.getRightLeaf(false);
+		if (leaf) {
+			await leaf.setViewState({ type: VIEW_TYPE_EXPORT_LOG, active: true });
+			this.app.workspace.revealLeaf(leaf);
+		}
+	}
+
+	// Save the export with its pandoc output; the log of the run is still in the export log at this point
+	async addHistoryEntry(file: TFile, templateId: string | null, options: ExportOptions, startedAt: number, outputPath: string, error?: string) {
+		if (options.skipHistory) {
+			return;
+		}
+
+		const format = getOutputFormat(options.format ?? 'pdf');
+		const entry: ExportHistoryEntry = {
+			id: createId(),
+			notePath: file.path,
+			templateId,
+			format: format.id,
+			presetId: options.presetId,
+			bundle: options.bundle,
+			templateName: this.getTemplate(templateId)?.name ?? 'No template',
+			formatLabel: options.bundle ? 'LaTeX bundle' : format.label,
+			outputPath,
+			startedAt,
+			duration: Date.now() - startedAt,
+			success: error === undefined,
+			error,
+			logPath: null
+		};
+
+		const adapter = this.app.vault.adapter;
+		const run = this.exportLog.runs.find((r) => r.file === file && r.startedAt >= startedAt);
+		if (run) {
+			const logDirectory = normalizePath(`${this.manifest.dir}/logs`);
+			const logPath = normalizePath(`${logDirectory}/${entry.id}.log`);
 			try {
-				return yaml.load(match[1]) as Record<string, any>;
+				if (!(await adapter.exists(logDirectory))) {
+					await adapter.mkdir(logDirectory);
+				}
+				await adapter.write(logPath, `${run.command}\n\n${run.output}`);
+				entry.logPath = logPath;
 			} catch (e) {
-				console.error("Error parsing YAML frontmatter:", e);
-				new Notice("Error parsing YAML frontmatter in document");
+				console.warn('Could not save the export log:', e);
 			}
 		}
-		
-		return {};
+
+		const history = this.settings.exportHistory;
+		history.unshift(entry);
+		for (const removed of history.splice(MAX_HISTORY)) {
+			await this.removeHistoryLog(removed);
+		}
+		await this.saveData(this.settings);
 	}
 
-	// Create a metadata file for pandoc with YAML variables
-	async createMetadataFile(frontmatter: Record<string, any>): Promise<string> {
-		const tempDir = os.tmpdir();
-		const metadataPath = path.join(tempDir, `pandoc-metadata-${Date.now()}.yaml`);
-		
-		const yamlContent = yaml.dump(frontmatter);
-		
-		await fs.promises.writeFile(metadataPath, yamlContent, 'utf8');
-		return metadataPath;
+	async removeHistoryLog(entry: ExportHistoryEntry) {
+		if (entry.logPath && await this.app.vault.adapter.exists(entry.logPath)) {
+			await this.app.vault.adapter.remove(entry.logPath);
+		}
 	}
 
-	async convertToPdf(file: TFile, templateIndex: number) {
-		try {
-			// Validate template index
-			if (templateIndex < 0 || templateIndex >= this.settings.latexTemplates.length) {
-				new Notice('Invalid template selection');
-				return;
-			}
-	
-			const selectedTemplate = this.settings.latexTemplates[templateIndex];
-	
-			// Get the vault path and full file path
-			// Check if we're using a FileSystemAdapter
-			const adapter = this.app.vault.adapter;
-			if (!('getBasePath' in adapter)) {
-				new Notice('This plugin only works with a local vault');
-				return;
-			}
-			const vaultPath = (adapter as any).getBasePath();
-			const fullInputPath = path.join(vaultPath, normalizePath(file.path));
-	
-			// Read the markdown file and extract frontmatter
-			const content = await this.app.vault.read(file);
-			const frontmatter = this.extractFrontmatter(content);
-	
-			// Create a temporary metadata file with the YAML frontmatter
-			const metadataPath = await this.createMetadataFile(frontmatter);
-	
-			// Determine output path
-			let outputPath = fullInputPath.replace(/\.md$/, '.pdf');
-			if (this.settings.outputDirectory) {
-				const fileName = path.basename(outputPath);
-				outputPath = path.join(vaultPath, this.settings.outputDirectory, fileName);
-	
-				// Ensure output directory exists
-				const outputDir = path.dirname(outputPath);
-				if (!fs.existsSync(outputDir)) {
-					fs.mkdirSync(outputDir, { recursive: true });
-				}
-			}
-	
-			// Normalize paths to use forward slashes
-			const normalizePathForPandoc = (p: string) => p.replace(/\\/g, '/');
-	
-			// Build pandoc command
-			let command = `"${this.settings.pandocPath}" "${normalizePathForPandoc(fullInputPath)}" -o "${normalizePathForPandoc(outputPath)}"`;
-	
-			// Add metadata file
-			command += ` --metadata-file="${normalizePathForPandoc(metadataPath)}"`;
-	
-			// Add template
-			const templatePath = path.join(vaultPath, selectedTemplate.path);
-	
-			// Check if template exists
-			if (!fs.existsSync(templatePath)) {
-				new Notice(`Template file not found: ${selectedTemplate.path}`);
-				return;
-			}
-	
-			command += ` --template="${normalizePathForPandoc(templatePath)}"`;
-	
-			// Add PDF engine
-			command += ` --pdf-engine=xelatex`;
-	
-			// COMPLETELY REFACTORED RESOURCE PATH HANDLING
-			// Only use the specified images directory if it exists
-			if (this.settings.imagesDirectory && this.settings.imagesDirectory.trim() !== '') {
-				// Handle both absolute and relative paths
-				let imagesDirPath;
-				if (path.isAbsolute(this.settings.imagesDirectory)) {
-					imagesDirPath = this.settings.imagesDirectory;
+	openHistory() {
+		new ExportHistoryModal(this.app, this.settings.exportHistory, {
+			openNote: (entry) => {
+				const file = this.app.vault.getAbstractFileByPath(entry.notePath);
+				if (file instanceof TFile) {
+					this.app.workspace.getLeaf(false).openFile(file);
 				} else {
-					imagesDirPath = path.join(vaultPath, this.settings.imagesDirectory);
+					new Notice(`Note not found: ${entry.notePath}`);
 				}
-				
-				if (fs.existsSync(imagesDirPath)) {
-					command += ` --resource-path="${normalizePathForPandoc(imagesDirPath)}"`;
-					console.log(`Using images directory: ${imagesDirPath}`);
-				} else {
-					console.warn(`Images directory not found: ${this.settings.imagesDirectory}`);
-					// Fallback to current file directory
-					command += ` --resource-path="${normalizePathForPandoc(path.dirname(fullInputPath))}"`;
-					console.log(`Falling back to current file directory: ${path.dirname(fullInputPath)}`);
+			},
+			openOutput: (entry) => this.openOutput(entry),
+			openLog: (entry) => {
+				const vaultPath = this.getVaultPathOrNotify();
+				if (entry.logPath && vaultPath) {
+					this.openWithSystem(path.join(vaultPath, entry.logPath));
 				}
-			} else if (this.settings.useTemplateDirectoryAsResourcePath) {
-				// If no images directory specified but template directory is enabled, use that
-				const templateDir = path.dirname(templatePath);
-				command += ` --resource-path="${normalizePathForPandoc(templateDir)}"`;
-				console.log(`Using template directory: ${templateDir}`);
-			} else {
-				// If nothing else is specified, use current file directory
-				command += ` --resource-path="${normalizePathForPandoc(path.dirname(fullInputPath))}"`;
-				console.log(`Using current file directory: ${path.dirname(fullInputPath)}`);
+			},
+			rerun: (entry) => this.rerunExport(entry),
+			clear: async () => {
+				for (const entry of this.settings.exportHistory) {
+					await this.removeHistoryLog(entry);
+				}
+				this.settings.exportHistory = [];
+				await this.saveData(this.settings);
 			}
-	
-			// Add extract-media option to have pandoc extract embedded images
-			command += ` --extract-media="${normalizePathForPandoc(path.dirname(outputPath))}"`;
-	
-			// Add additional pandoc arguments if specified
-			if (this.settings.additionalPandocArgs && this.settings.additionalPandocArgs.trim() !== '') {
-				command += ` ${this.settings.additionalPandocArgs}`;
+		}).open();
+	}
+
+	// Run an export from the history again with its template, format or preset
+	async rerunExport(entry: ExportHistoryEntry) {
+		const file = this.app.vault.getAbstractFileByPath(entry.notePath);
+		if (!(file instanceof TFile)) {
+			new Notice(`Note not found: ${entry.notePath}`);
+			return;
+		}
+
+		if (entry.presetId) {
+			await this.convertWithPreset(file, entry.presetId);
+		} else {
+			await this.convertFile(file, entry.templateId, entry.format, { bundle: entry.bundle });
+		}
+	}
+
+	// Open an output file in Obsidian or with the system viewer, as set in the settings
+	openOutput(entry: ExportHistoryEntry) {
+		const vaultPath = this.getVaultPathOrNotify();
+		if (!vaultPath) {
+			return;
+		}
+		const relativePath = normalizePath(path.relative(vaultPath, entry.outputPath));
+		const file = this.app.vault.getAbstractFileByPath(relativePath);
+		if (!fs.existsSync(entry.outputPath)) {
+			new Notice(`File not found: ${entry.outputPath}`);
+			return;
+		}
+
+		if (this.settings.openPdfIn === 'obsidian' && file instanceof TFile) {
+			this.app.workspace.getLeaf('tab').openFile(file);
+		} else {
+			this.openWithSystem(entry.outputPath);
+		}
+	}
+
+	// Open a file in the program the system uses for it; only the desktop app can start other programs
+	async openWithSystem(filePath: string) {
+		if (!Platform.isDesktopApp) {
+			new Notice('Opening files in other apps only works in the desktop app');
+			return;
+		}
+		try {
+			await openWithSystem(filePath);
+		} catch (error) {
+			console.error(error);
+			new Notice(error.message);
+		}
+	}
+
+	async toggleWatch(file: TFile) {
+		if (this.watcher.isWatching(file.path)) {
+			this.watcher.unwatch(file.path);
+			new Notice(`Stopped watching ${file.basename}`);
+			return;
+		}
+
+		const template = this.getDefaultTemplate();
+		if (!template) {
+			new Notice('No templates defined. Add one in settings or run "Create template from starter".');
+			return;
+		}
+
+		// The preview opens next to the note without taking the focus from the editor
+		if (!this.getPreviewView(file.path)) {
+			const leaf = this.app.workspace.getLeaf('split', 'vertical');
+			await leaf.setViewState({ type: VIEW_TYPE_PDF_PREVIEW, active: false, state: { notePath: file.path, pdfPath: null } });
+		}
+
+		new Notice(`Watching ${file.basename}, the PDF is updated on every change`);
+		this.watcher.watch(file.path, template.id);
+	}
+
+	getPreviewView(notePath: string): PdfPreviewView | null {
+		const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_PDF_PREVIEW)
+			.find((l) => l.view instanceof PdfPreviewView && l.view.notePath === notePath);
+		return leaf ? leaf.view as PdfPreviewView : null;
+	}
+
+	// Export a watched note to PDF and show it in its preview, returns the vault paths to watch
+	async runWatchedExport(notePath: string, templateId: string): Promise<string[] | null> {
+		const file = this.app.vault.getAbstractFileByPath(notePath);
+		const template = this.getTemplate(templateId);
+		if (!(file instanceof TFile) || !template) {
+			this.watcher.unwatch(notePath);
+			return null;
+		}
+
+		const view = this.getPreviewView(notePath);
+		view?.showRunning();
+		try {
+			const result = await this.exportFile(file, templateId, { format: 'pdf', conflictMode: 'overwrite', skipHistory: true });
+			await view?.showPdf(result.outputPath);
+			return [...result.sourceFiles.map((sourceFile) => sourceFile.path), normalizePath(template.path)];
+		} catch (error) {
+			view?.showError(error.message);
+			return null;
+		}
+	}
+
+	openStarterTemplates(onCreated?: () => void) {
+		new StarterTemplateModal(this.app, async (starter, folder) => {
+			const template = await this.createTemplateFromStarter(starter, folder);
+			if (template && onCreated) {
+				onCreated();
 			}
-	
-			new Notice(`Converting to PDF using template: ${selectedTemplate.name}...`);
-	
-			console.log("Running pandoc command:", command);
-	
-			try {
-				await execPromise(command);
-				new Notice(`PDF created at ${this.settings.outputDirectory ? `${this.settings.outputDirectory}/${path.basename(outputPath)}` : file.path.replace(/\.md$/, '.pdf')}`);
-	
-				// Clean up the temporary metadata file
-				try {
-					fs.unlinkSync(metadataPath);
-				} catch (e) {
-					console.warn("Could not delete temporary metadata file:", e);
-				}
-			} catch (error) {
-				console.error("Pandoc command that failed:", command);
-				console.error("Pandoc error:", error);
-				
-				// Show full error for debugging
-				new Notice(`Error converting to PDF: ${error.message}`);
+		}).open();
+	}
+
+	// Copy a starter into the vault and register the copy as a template, the default one if there is none yet
+	async createTemplateFromStarter(starter: StarterTemplate, folder: string): Promise<LatexTemplate | null> {
+		try {
+			const folderPath = normalizePath(folder || '/');
+			if (folderPath !== '/' && !this.app.vault.getAbstractFileByPath(folderPath)) {
+				await this.app.vault.createFolder(folderPath);
 			}
-	
+
+			// Never overwrite an earlier copy, it may already be customized
+			const baseName = starter.fileName.replace(/\.tex$/, '');
+			let filePath = normalizePath(`${folderPath}/${starter.fileName}`);
+			for (let i = 2; this.app.vault.getAbstractFileByPath(filePath); i++) {
+				filePath = normalizePath(`${folderPath}/${baseName}-${i}.tex`);
+			}
+			await this.app.vault.create(filePath, starter.content);
+
+			const template: LatexTemplate = {
+				id: createId(),
+				name: starter.name,
+				path: filePath
+			};
+			if (starter.pandocArgs) {
+				template.pandocArgs = starter.pandocArgs;
+			}
+			this.settings.latexTemplates.push(template);
+			if (!this.getTemplate(this.settings.activeTemplateId)) {
+				this.settings.activeTemplateId = template.id;
+			}
+			await this.saveSettings();
+
+			new Notice(`Created template "${template.name}" at ${filePath}`);
+			return template;
 		} catch (error) {
-			console.error('Error converting to PDF:', error);
-			new Notice(`Error converting to PDF: ${error.message}`);
+			console.error('Could not create the starter template:', error);
+			new Notice(`Could not create the starter template: ${error.message}`);
+			return null;
 		}
 	}
-}
 
-export class UniExportSettingsTab extends PluginSettingTab {
-    plugin: UniExport;
-    templateContainerEl: HTMLElement;
+	// The vault folder for actions started from the interface, null with a notice where there is none
+	getVaultPathOrNotify(): string | null {
+		try {
+			return getVaultPath(this.app);
+		} catch (error) {
+			new Notice(error.message);
+			return null;
+		}
+	}
+
+	openSetupCheck() {
+		const vaultPath = this.getVaultPathOrNotify();
+		if (!vaultPath) {
+			return;
+		}
+
+		const templateEngines = this.settings.latexTemplates
+			.map((template) => template.pdfEngine)
+			.filter((engine): engine is string => !!engine);
+		const config: SetupCheckConfig = {
+			pandocPath: this.settings.pandocPath,
+			pdfEngines: [this.settings.pdfEngine || 'xelatex', ...templateEngines],
+			templates: this.settings.latexTemplates.map((template) => ({ name: template.name, path: template.path, pdfEngine: template.pdfEngine })),
+			luaFilters: this.settings.luaFilters.map((filter) => filter.path),
+			vaultPath,
+			timeout: this.settings.exportTimeout * 1000
+		};
+		new SetupCheckModal(this.app, config).open();
+	}
+
+	// Run pandoc without a shell; aborting the signal kills it, an aborted export does not start it at all
+	async runPandoc(args: string[], cwd: string, env?: Record<string, string>, signal?: AbortSignal): Promise<ProcessResult> {
+		if (signal?.aborted) {
+			throw new ProcessError('Export cancelled', null, '', '', true);
+		}
+
+		const running = new RunningProcess(this.settings.pandocPath, args, {
+			cwd,
+			env,
+			timeout: this.settings.exportTimeout * 1000
+		});
+		const cancel = () => running.cancel();
+		signal?.addEventListener('abort', cancel);
+
+		try {
+			return await running.promise;
+		} finally {
+			signal?.removeEventListener('abort', cancel);
+		}
+	}
+
+	// Stop all running exports, including pandoc and its LaTeX children
+	cancelExports(): number {
+		const count = this.runningExports.size;
+		this.runningExports.forEach((controller) => controller.abort());
+		return count;
+	}
+
+	// Parse the default metadata variables of a template
+	parseTemplateVariables(template: LatexTemplate): Record<string, unknown> {
+		return this.parseYamlMapping(template.variables, `Default variables of template "${template.name}"`);
+	}
+
+	// Parse YAML variables from the settings, throws if they are not a mapping
+	parseYamlMapping(source: string | undefined, description: string): Record<string, unknown> {
+		if (!source || source.trim() === '') {
+			return {};
+		}
+
+		try {
+			const variables = yaml.load(source);
+			if (variables && typeof variables === 'object' && !Array.isArray(variables)) {
+				return variables as Record<string, unknown>;
+			}
+		} catch (e) {
+			console.error(`Error parsing ${description}:`, e);
+		}
+		throw new Error(`${description} must be a YAML mapping`);
+	}
+
+	// Profile chosen with the "profile" frontmatter key, else the default or only profile
+	// null if the frontmatter names a profile that doesn't exist, the export reports that
+	getProfile(frontmatter: Record<string, unknown>): MetadataProfile | null {
+		const profiles = this.settings.profiles;
+		if (typeof frontmatter['profile'] === 'string') {
+			return profiles.find((p) => p.name === frontmatter['profile']) ?? null;
+		}
+
+		const activeProfile = profiles.find((p) => p.id === this.settings.activeProfileId);
+		if (activeProfile) {
+			return activeProfile;
+		}
+		return profiles.length === 1 ? profiles[0] : null;
+	}
+
+	// Personal metadata of the profile, empty fields are left out so they don't hide template defaults
+	getProfileMetadata(profile: MetadataProfile | null): Record<string, unknown> {
+		const metadata: Record<string, unknown> = {};
+		if (profile) {
+			Object.keys(profile.fields).forEach((key) => {
+				if (profile.fields[key].trim() !== '') {
+					metadata[key] = profile.fields[key];
+				}
+			});
+		}
+		return metadata;
+	}
+
+	// Create a metadata file for pandoc with YAML variables
+	async createMetadataFile(workspace: ExportWorkspace, frontmatter: Record<string, unknown>): Promise<string> {
+		const metadata = Object.assign({}, frontmatter);
+		delete metadata['profile'];
+		
+		const yamlContent = yaml.dump(metadata);
+		
+		return workspace.writeFile('metadata.yaml', yamlContent);
+	}
+
+	// Diagram images are cached across exports, so only new or changed diagrams are rendered
+	createDiagramRenderer(): DiagramRenderer {
+		return new DiagramRenderer(this.app, this.settings.diagrams, ExportWorkspace.cacheDirectory('diagrams'));
+	}
+
+	// Write the note with resolved wikilinks and embeds to a markdown file in the workspace
+	// Manifest notes are compiled from their chapters instead
+	// Returns the temporary path, its content and all notes that went into it
+	async createPreprocessedFile(workspace: ExportWorkspace, file: TFile, vaultPath: string, manifest: Manifest | null): Promise<{ inputPath: string, content: string, sourceFiles: TFile[] }> {
+		// The frontmatter is left out, the metadata file is the only source of metadata
+		const preprocessor = new MarkdownPreprocessor(this.app, vaultPath, this.settings.obsidianSyntax, this.createDiagramRenderer());
+		const content = manifest ?
+			await compileManifest(preprocessor, file, manifest) :
+			await preprocessor.resolveBody(file);
+
+		const inputPath = await workspace.writeFile('input.md', content);
+		return { inputPath, content, sourceFiles: preprocessor.visitedFiles };
+	}
+
+	// Write the Lua filter that renders converted callouts and highlights, null if both are off
+	async createSyntaxFilter(workspace: ExportWorkspace): Promise<string | null> {
+		const syntax = this.settings.obsidianSyntax;
+		if (!syntax.callouts && !syntax.highlights) {
+			return null;
+		}
+
+		return workspace.writeFile('obsidian-syntax.lua', SYNTAX_LUA_FILTER);
+	}
+
+	// Notes of the front or back matter with resolved embeds and the metadata of the exported note filled in
+	async renderMatterNotes(files: TFile[], vaultPath: string, metadata: Record<string, unknown>, sourceFiles: TFile[]): Promise<string> {
+		const parts: string[] = [];
+		for (const file of files) {
+			const preprocessor = new MarkdownPreprocessor(this.app, vaultPath, this.settings.obsidianSyntax, this.createDiagramRenderer());
+			const content = await preprocessor.resolveBody(file);
+			parts.push(substituteVariables(content, metadata, this.settings.dateFormat, this.settings.dateLocale));
+			preprocessor.visitedFiles.forEach((visited) => {
+				if (!sourceFiles.includes(visited)) {
+					sourceFiles.push(visited);
+				}
+			});
+		}
+		return parts.join('\n\n');
+	}
+
+	// Convert front or back matter to a fragment for --include-before-body or --include-after-body
+	async renderIncludeFile(workspace: ExportWorkspace, name: string, markdown: string, writer: string, extraArgs: string[], cwd: string, signal?: AbortSignal): Promise<string> {
+		const inputPath = await workspace.writeFile(`${name}.md`, markdown);
+		const outputPath = workspace.path(`${name}.${writer === 'html' ? 'html' : 'tex'}`);
+		const args = [inputPath, '-o', outputPath, `--to=${writer}`, ...extraArgs];
+		await this.runPandoc(args.map((arg) => arg.replace(/\\/g, '/')), cwd, workspace.environment(), signal);
+		return outputPath;
+	}
+
+	// Point the images of a .tex file at its -media folder relative to the file
+	async relativizeTexFile(texPath: string) {
+		const tex = await fs.promises.readFile(texPath, 'utf8');
+		await fs.promises.writeFile(texPath, relativizePaths(tex, path.dirname(texPath)), 'utf8');
+	}
+
+	// Debug option: write the pandoc output and, for PDFs, the LaTeX source next to the output file
+	// Bundles pass their own path, so the log ends up beside the bundle instead of in it
+	// The LaTeX source comes from a second run with the same arguments, its images go into a folder beside it
+	async saveIntermediates(workspace: ExportWorkspace, args: string[], format: OutputFormat, outputPath: string, output: string, cwd: string, signal?: AbortSignal) {
+		const base = outputPath.substring(0, outputPath.length - path.extname(outputPath).length);
+		try {
+			await fs.promises.writeFile(`${base}.log`, output, 'utf8');
+
+			if (format.usesPdfEngine) {
+				const texArgs = args
+					.filter((arg) => !arg.startsWith('--pdf-engine'))
+					.map((arg) => arg.startsWith('--extract-media=') ? `--extract-media=${base.replace(/\\/g, '/')}-media` : arg);
+				texArgs[texArgs.indexOf('-o') + 1] = `${base}.tex`.replace(/\\/g, '/');
+				if (!format.writer) {
+					texArgs.push('--to=latex');
+				}
+				await this.runPandoc(texArgs, cwd, workspace.environment(), signal);
+				await this.relativizeTexFile(`${base}.tex`);
+			}
+		} catch (e) {
+			console.warn('Could not keep the intermediate files:', e);
+		}
+	}
+
+	// Lua filters that are on for the template, in the order of the settings
+	getLuaFilters(template: LatexTemplate): LuaFilter[] {
+		return this.settings.luaFilters.filter((filter) => {
+			const override = template.luaFilters?.[filter.id];
+			return filter.path.trim() !== '' && (override ?? filter.enabled);
+		});
+	}
+
+	async convertToPdf(file: TFile, templateId: string) {
+		await this.convertFile(file, templateId, 'pdf');
+	}
+
+	async convertWithPreset(file: TFile, presetId: string) {
+		const preset = this.settings.presets.find((p) => p.id === presetId);
+		if (!preset) {
+			new Notice('Preset not found');
+			return;
+		}
+
+		const template = preset.templateId ? this.getTemplate(preset.templateId) : this.getDefaultTemplate();
+		if (preset.templateId && !template) {
+			new Notice(`The template of preset "${preset.name}" no longer exists`);
+			return;
+		}
+
+		let metadata: Record<string, unknown>;
+		try {
+			metadata = this.parseYamlMapping(preset.metadata, `Metadata of preset "${preset.name}"`);
+		} catch (error) {
+			new Notice(error.message);
+			return;
+		}
+
+		await this.convertFile(file, template ? template.id : null, preset.format, {
+			metadata,
+			pandocArgs: preset.pandocArgs,
+			outputDirectory: preset.outputDirectory,
+			outputPattern: preset.outputPattern,
+			matter: preset.matter,
+			presetId: preset.id
+		});
+	}
+
+	async convertFile(file: TFile, templateId: string | null, formatId: OutputFormatId, baseOptions: ExportOptions = {}) {
+		const format = getOutputFormat(formatId);
+		const label = baseOptions.bundle ? 'LaTeX bundle' : format.label;
+		try {
+			const template = this.getTemplate(templateId);
+			const options: ExportOptions = Object.assign({}, baseOptions, { format: formatId });
+			if (template && format.usesLatexTemplate) {
+				const checked = await this.checkVariablesBeforeExport(file, template, baseOptions.metadata);
+				if (!checked) {
+					return;
+				}
+				options.metadata = Object.assign({}, baseOptions.metadata, checked.metadata);
+				new Notice(`Converting to ${label} using template: ${template.name}...`);
+			} else {
+				new Notice(`Converting to ${label}...`);
+			}
+
+			const result = await this.exportFile(file, templateId, options);
+			const vaultPath = getVaultPath(this.app);
+			let message = `${label} created at ${normalizePath(path.relative(vaultPath, result.outputPath))}\n${formatCounts(result.counts)}`;
+			if (result.limitProblems.length > 0) {
+				message += `\n\nLength limit not met:\n${result.limitProblems.join('\n')}`;
+			}
+			new Notice(message, result.limitProblems.length > 0 ? 10000 : undefined);
+		} catch (error) {
+			console.error(`Error converting to ${label}:`, error);
+			new Notice(`Error converting to ${label}: ${error.message}\n\nSee the export log for details.`);
+			if (this.settings.openLogOnFailure && !(error instanceof ProcessError && error.cancelled)) {
+				await this.activateLogView();
+			}
+		}
+	}
+
+	// Check the note against the variables of the template and ask the user about missing ones
+	// Returns the options for the export, or null if the user cancelled
+	async checkVariablesBeforeExport(file: TFile, template: LatexTemplate, overrides: Record<string, unknown> = {}): Promise<ExportOptions | null> {
+		if (!this.settings.checkTemplateVariables) {
+			return {};
+		}
+
+		const templatePath = path.join(getVaultPath(this.app), template.path);
+		if (!fs.existsSync(templatePath)) {
+			// exportFile reports the missing template
+			return {};
+		}
+
+		const templateSource = await fs.promises.readFile(templatePath, 'utf8');
+		const frontmatter = readFrontmatter(this.app, file, await this.app.vault.read(file));
+		const metadata = Object.assign({}, this.getNoteMetadata(file, frontmatter, template, this.getProfile(frontmatter)), overrides);
+		const report = checkTemplateVariables(scanTemplateVariables(templateSource), metadata);
+		if (report.missing.length === 0 && report.empty.length === 0) {
+			return {};
+		}
+
+		const result = await MissingVariablesModal.ask(this.app, report, template.name);
+		if (result.action === 'cancel') {
+			return null;
+		}
+		if (result.action === 'continue') {
+			return {};
+		}
+
+		const values: Record<string, string> = {};
+		Object.keys(result.values).forEach((key) => {
+			if (result.values[key].trim() !== '') {
+				values[key] = result.values[key];
+			}
+		});
+
+		if (result.writeBack && Object.keys(values).length > 0) {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				Object.assign(frontmatter, values);
+			});
+		}
+		return { metadata: values };
+	}
+
+	// Run the export for a single file with progress in the status bar and an entry in the history
+	async exportFile(file: TFile, templateId: string | null, options: ExportOptions = {}): Promise<ExportResult> {
+		const startedAt = Date.now();
+		const statusId = this.statusBar.start(file.basename);
+
+		// Aborted by the "Cancel export" command or together with the batch the export belongs to
+		const controller = new AbortController();
+		const abort = () => controller.abort();
+		if (options.signal?.aborted) {
+			abort();
+		}
+		options.signal?.addEventListener('abort', abort);
+		this.runningExports.add(controller);
+
+		try {
+			const result = await this.runExport(file, templateId, Object.assign({}, options, { signal: controller.signal }));
+			this.statusBar.finish(statusId, true);
+			await this.addHistoryEntry(file, templateId, options, startedAt, result.outputPath);
+			return result;
+		} catch (error) {
+			this.statusBar.finish(statusId, false);
+			await this.addHistoryEntry(file, templateId, options, startedAt, '', error.message);
+			throw error;
+		} finally {
+			this.runningExports.delete(controller);
+			options.signal?.removeEventListener('abort', abort);
+		}
+	}
+
+	// Run the export for a single file and return the output path with the counts; throws if anything goes wrong
+	async runExport(file: TFile, templateId: string | null, options: ExportOptions = {}): Promise<ExportResult> {
+		const format = getOutputFormat(options.format ?? 'pdf');
+		const formatSettings = this.settings.formats[format.id];
+
+		// Validate the template; formats without a LaTeX template can export without one
+		const template = this.getTemplate(templateId);
+		if (!template && format.usesLatexTemplate) {
+			throw new Error('Invalid template selection');
+		}
+	
+		// Without a template all per-template options fall back to the global settings
+		const selectedTemplate: LatexTemplate = template ?? { id: '', name: 'No template', path: '' };
+	
+		// Get the vault path and full file path
+		const vaultPath = getVaultPath(this.app);
+		const fullInputPath = path.join(vaultPath, normalizePath(file.path));
+	
+		// Read the markdown file and extract frontmatter
+		const content = await this.app.vault.read(file);
+		const frontmatter = readFrontmatter(this.app, file, content);
+
+		// The profile is resolved once, so a missing one is reported once per export
+		const profile = this.getProfile(frontmatter);
+		if (!profile && typeof frontmatter['profile'] === 'string') {
+			new Notice(`Profile not found: ${frontmatter['profile']}`);
+		}
+
+		// Resolve bibliography and CSL paths; the template overrides the global settings
+		const citationSources = resolveCitationSources(
+			frontmatter,
+			vaultPath,
+			path.dirname(fullInputPath),
+			selectedTemplate.bibliographyPath || this.settings.bibliographyPath,
+			selectedTemplate.cslPath || this.settings.cslPath
+		);
+		const citationProblems = validateCitationSources(citationSources);
+		if (citationProblems.length > 0) {
+			throw new Error(citationProblems.join('\n'));
+		}
+
+		// Paths are passed on the command line, relative values would not work from the temp files
+		delete frontmatter['bibliography'];
+		delete frontmatter['csl'];
+
+		// Check the Lua filters before anything is written to disk
+		const luaFilterPaths = this.getLuaFilters(selectedTemplate).map((filter) => path.join(vaultPath, filter.path.trim()));
+		const missingFilters = luaFilterPaths.filter((filterPath) => !fs.existsSync(filterPath));
+		if (missingFilters.length > 0) {
+			throw new Error(`Lua filter not found: ${missingFilters.map((filterPath) => normalizePath(path.relative(vaultPath, filterPath))).join(', ')}`);
+		}
+
+		// Check the front and back matter notes of the template or preset
+		const matterNotes = mergeMatterNotes(selectedTemplate.matter, options.matter);
+		const matterFiles: Record<MatterPosition, TFile[]> = { before: [], appendix: [], after: [] };
+		const missingNotes: string[] = [];
+		MATTER_POSITIONS.forEach(({ id }) => {
+			const resolved = resolveNoteList(this.app, matterNotes[id] ?? '', file.path);
+			matterFiles[id] = resolved.files;
+			missingNotes.push(...resolved.missing);
+		});
+		if (missingNotes.length > 0) {
+			throw new Error(`Note not found: ${missingNotes.join(', ')}`);
+		}
+
+		// A manifest note compiles its chapters into one document, its frontmatter is the document metadata
+		const manifest = parseManifest(this.app, file, frontmatter, content);
+		if (manifest) {
+			MANIFEST_KEYS.forEach((key) => delete frontmatter[key]);
+		}
+	
+		// Everything written for this export goes into its own workspace, which is removed even if the export fails
+		const workspace = await ExportWorkspace.create();
+		try {
+			// Resolve wikilinks and embeds into a temporary copy of the note
+			const { inputPath: preprocessedPath, content: body, sourceFiles } = await this.createPreprocessedFile(workspace, file, vaultPath, manifest);
+			const syntaxFilterPath = await this.createSyntaxFilter(workspace);
+
+			// Count the body so templates can print $wordcount$ and $charcount$
+			const counts = countText(body);
+
+			// The profile and the default variables of the template are merged under the frontmatter, the note always wins
+			const metadata = Object.assign(
+				{ wordcount: counts.words, charcount: counts.characters },
+				this.getNoteMetadata(file, frontmatter, selectedTemplate, profile),
+				options.metadata
+			);
+
+			// Render the front and back matter with the metadata of the note; the appendix comes before the back matter
+			const beforeBody = await this.renderMatterNotes(matterFiles.before, vaultPath, metadata, sourceFiles);
+			let appendix = await this.renderMatterNotes(matterFiles.appendix, vaultPath, metadata, sourceFiles);
+			if (appendix && format.includeWriter === 'latex') {
+				appendix = `\`\`\`{=latex}\n\\appendix\n\`\`\`\n\n${appendix}`;
+			}
+			const afterBody = [appendix, await this.renderMatterNotes(matterFiles.after, vaultPath, metadata, sourceFiles)]
+				.filter((part) => part !== '')
+				.join('\n\n');
+
+			// Citations in the front and back matter are rendered separately, nocite puts their sources
+			// into the bibliography of the document
+			const citeArgs = citationArgs(citationSources, !!frontmatter['references']);
+			if (format.includeWriter && citeArgs.length > 0) {
+				const keys = collectCitationKeys(`${beforeBody}\n${afterBody}`);
+				if (keys.length > 0) {
+					const nocite = typeof metadata['nocite'] === 'string' ? metadata['nocite'] : '';
+					metadata['nocite'] = [nocite, ...keys.map((key) => `@${key}`)].join(' ').trim();
+				}
+			}
+
+			// Create a temporary metadata file with the YAML frontmatter
+			const metadataPath = await this.createMetadataFile(workspace, metadata);
+
+			let beforeBodyPath: string | null = null;
+			let afterBodyPath: string | null = null;
+			if (!format.includeWriter) {
+				// Word and ODT have no includes, the notes become part of the Markdown
+				// The bibliography goes between the body and the back matter, not at the very end
+				let backMatter = afterBody;
+				if (backMatter && citeArgs.length > 0 && !/\{\s*#refs[\s}]/.test(body)) {
+					backMatter = `::: {#refs}\n:::\n\n${backMatter}`;
+				}
+				if (beforeBody || backMatter) {
+					await workspace.writeFile('input.md', [beforeBody, body, backMatter].filter((part) => part !== '').join('\n\n'));
+				}
+			} else {
+				// The fragments get the metadata, citations and filters of the document, only the bibliography is left out
+				const filterPaths = syntaxFilterPath ? [syntaxFilterPath, ...luaFilterPaths] : luaFilterPaths;
+				const includeArgs = [
+					`--metadata-file=${metadataPath}`,
+					...citeArgs,
+					...(citeArgs.length > 0 ? ['--metadata=suppress-bibliography:true'] : []),
+					...filterPaths.map((filterPath) => `--lua-filter=${filterPath}`)
+				];
+				if (beforeBody) {
+					beforeBodyPath = await this.renderIncludeFile(workspace, 'before-body', beforeBody, format.includeWriter, includeArgs, path.dirname(fullInputPath), options.signal);
+				}
+				if (afterBody) {
+					afterBodyPath = await this.renderIncludeFile(workspace, 'after-body', afterBody, format.includeWriter, includeArgs, path.dirname(fullInputPath), options.signal);
+				}
+			}
+	
+			// Determine output path from the file name pattern, relative to the output directory or the note
+			const outputPattern = options.outputPattern || selectedTemplate.outputPattern || this.settings.outputPattern || DEFAULT_OUTPUT_PATTERN;
+			const outputName = expandOutputPattern(outputPattern, {
+				note: file.basename,
+				folder: file.parent && !file.parent.isRoot() ? file.parent.path : '',
+				template: template ? template.name : '',
+				metadata: this.getOutputPatternMetadata(frontmatter, selectedTemplate, profile, options.metadata)
+			});
+			const outputDirectory = options.outputDirectory || this.settings.outputDirectory;
+			const outputBase = outputDirectory ?
+				path.join(vaultPath, outputDirectory) :
+				path.dirname(fullInputPath);
+			let outputPath = path.join(outputBase, `${outputName}${format.fileSuffix}.${format.extension}`);
+
+			// A bundle is a folder with main.tex; for a .zip the folder is built in the workspace
+			// A bundle folder is emptied after the conflict mode ran, files of an earlier export must not end up in it
+			const conflictMode = options.conflictMode ?? this.settings.conflictMode;
+			let bundlePath = '';
+			if (options.bundle) {
+				bundlePath = path.join(outputBase, `${outputName}-latex${this.settings.bundleAsZip ? '.zip' : ''}`);
+				await fs.promises.mkdir(path.dirname(bundlePath), { recursive: true });
+				bundlePath = await applyConflictMode(bundlePath, conflictMode);
+				if (!this.settings.bundleAsZip) {
+					await fs.promises.rm(bundlePath, { recursive: true, force: true });
+				}
+				outputPath = path.join(this.settings.bundleAsZip ? workspace.path('bundle') : bundlePath, BUNDLE_MAIN_FILE);
+			}
+	
+			// Ensure output directory exists
+			const outputDir = path.dirname(outputPath);
+			if (!fs.existsSync(outputDir)) {
+				fs.mkdirSync(outputDir, { recursive: true });
+			}
+			if (!options.bundle) {
+				outputPath = await applyConflictMode(outputPath, conflictMode);
+			}
+	
+			// Normalize paths to use forward slashes
+			const normalizePathForPandoc = (p: string) => p.replace(/\\/g, '/');
+	
+			// Build pandoc arguments; they are passed to pandoc directly without a shell
+			const args = [normalizePathForPandoc(preprocessedPath), '-o', normalizePathForPandoc(outputPath)];
+	
+			// Add metadata file
+			args.push(`--metadata-file=${normalizePathForPandoc(metadataPath)}`);
+	
+			// Add output format if pandoc can't tell it from the extension
+			if (format.writer) {
+				args.push(`--to=${format.writer}`);
+			}
+	
+			// Add template: the LaTeX template for PDF/LaTeX, else the reference document or template of the format
+			let templatePath = '';
+			if (format.usesLatexTemplate) {
+				templatePath = path.join(vaultPath, selectedTemplate.path);
+	
+				// Check if template exists
+				if (!fs.existsSync(templatePath)) {
+					throw new Error(`Template file not found: ${selectedTemplate.path}`);
+				}
+	
+				// Hand-written templates often lack the loops for header and body includes, they get a completed copy
+				const completed = completeTemplate(await fs.promises.readFile(templatePath, 'utf8'));
+				const templateArg = completed === null ? templatePath : await workspace.writeFile('template.tex', completed);
+				args.push(`--template=${normalizePathForPandoc(templateArg)}`);
+				// Packages and classes next to the template are found like installed ones
+				workspace.texDirectories.push(path.dirname(templatePath));
+			} else if (format.fileOption && formatSettings.filePath.trim() !== '') {
+				templatePath = path.join(vaultPath, formatSettings.filePath.trim());
+				if (!fs.existsSync(templatePath)) {
+					throw new Error(`${format.label} template not found: ${formatSettings.filePath}`);
+				}
+	
+				args.push(`${format.fileOption}=${normalizePathForPandoc(templatePath)}`);
+			}
+
+			// HTML is written as a single file with images embedded
+			if (format.id === 'html') {
+				args.push('--standalone', '--embed-resources');
+			}
+	
+			// Add PDF engine
+			if (format.usesPdfEngine) {
+				const pdfEngine = selectedTemplate.pdfEngine || this.settings.pdfEngine || 'xelatex';
+				args.push(`--pdf-engine=${pdfEngine}`);
+			}
+
+			// Resource path settings of the template override the global ones
+			const imagesDirectory = selectedTemplate.imagesDirectory || this.settings.imagesDirectory;
+			const useTemplateDirectory = selectedTemplate.useTemplateDirectoryAsResourcePath ?? this.settings.useTemplateDirectoryAsResourcePath;
+	
+			// COMPLETELY REFACTORED RESOURCE PATH HANDLING
+			// Only use the specified images directory if it exists
+			if (imagesDirectory && imagesDirectory.trim() !== '') {
+				// Handle both absolute and relative paths
+				let imagesDirPath;
+				if (path.isAbsolute(imagesDirectory)) {
+					imagesDirPath = imagesDirectory;
+				} else {
+					imagesDirPath = path.join(vaultPath, imagesDirectory);
+				}
+			
+				if (fs.existsSync(imagesDirPath)) {
+					args.push(`--resource-path=${normalizePathForPandoc(imagesDirPath)}`);
+					console.log(`Using images directory: ${imagesDirPath}`);
+				} else {
+					console.warn(`Images directory not found: ${imagesDirectory}`);
+					// Fallback to current file directory
+					args.push(`--resource-path=${normalizePathForPandoc(path.dirname(fullInputPath))}`);
+					console.log(`Falling back to current file directory: ${path.dirname(fullInputPath)}`);
+				}
+			} else if (useTemplateDirectory && templatePath) {
+				// If no images directory specified but template directory is enabled, use that
+				const templateDir = path.dirname(templatePath);
+				args.push(`--resource-path=${normalizePathForPandoc(templateDir)}`);
+				console.log(`Using template directory: ${templateDir}`);
+			} else {
+				// If nothing else is specified, use current file directory
+				args.push(`--resource-path=${normalizePathForPandoc(path.dirname(fullInputPath))}`);
+				console.log(`Using current file directory: ${path.dirname(fullInputPath)}`);
+			}
+	
+			// Add citation processing if there is anything to cite from
+			args.push(...citeArgs);
+
+			// Render callouts and highlights before any filters from the pandoc arguments run
+			// Their LaTeX definitions always go into the header, also for callouts in the front and back matter
+			if (syntaxFilterPath) {
+				args.push(`--lua-filter=${normalizePathForPandoc(syntaxFilterPath)}`);
+				if (format.includeWriter === 'latex') {
+					const headerPath = await workspace.writeFile('obsidian-syntax.tex', SYNTAX_LATEX_PREAMBLE);
+					args.push(`--include-in-header=${normalizePathForPandoc(headerPath)}`);
+				}
+			}
+			luaFilterPaths.forEach((filterPath) => {
+				args.push(`--lua-filter=${normalizePathForPandoc(filterPath)}`);
+			});
+
+			if (beforeBodyPath) {
+				args.push(`--include-before-body=${normalizePathForPandoc(beforeBodyPath)}`);
+			}
+			if (afterBodyPath) {
+				args.push(`--include-after-body=${normalizePathForPandoc(afterBodyPath)}`);
+			}
+
+			// Images are copied into the workspace; LaTeX source keeps them in a <name>-media folder next to
+			// the output so it still compiles, emptied first so images of earlier exports don't pile up
+			let mediaPath = workspace.path('media');
+			if (options.bundle) {
+				mediaPath = path.join(path.dirname(outputPath), BUNDLE_IMAGES_DIRECTORY);
+			} else if (format.id === 'latex') {
+				mediaPath = `${outputPath.substring(0, outputPath.length - path.extname(outputPath).length)}-media`;
+				await fs.promises.rm(mediaPath, { recursive: true, force: true });
+			}
+			args.push(`--extract-media=${normalizePathForPandoc(mediaPath)}`);
+	
+			// Add additional pandoc arguments if specified, the template's replace the global ones
+			const pandocArgs = selectedTemplate.pandocArgs || this.settings.additionalPandocArgs;
+			if (pandocArgs && pandocArgs.trim() !== '') {
+				args.push(...parseArgs(pandocArgs));
+			}
+			if (options.pandocArgs && options.pandocArgs.trim() !== '') {
+				args.push(...parseArgs(options.pandocArgs));
+			}
+	
+			// Let pandoc include the full LaTeX log in its output for the diagnostics
+			if (this.settings.detailedLatexLog) {
+				args.push('--verbose');
+			}
+	
+			const command = formatCommand(this.settings.pandocPath, args);
+			console.log("Running pandoc command:", command);
+
+			const startedAt = Date.now();
+			let limitProblems: string[] = [];
+			try {
+				const result = await this.runPandoc(args, path.dirname(fullInputPath), workspace.environment(), options.signal);
+				if (format.id === 'latex' && !options.bundle) {
+					await this.relativizeTexFile(outputPath);
+				}
+				if (this.settings.keepIntermediates) {
+					await this.saveIntermediates(workspace, args, format, options.bundle ? bundlePath : outputPath, result.stderr + result.stdout, path.dirname(fullInputPath), options.signal);
+				}
+
+				// Collect the files of the template and the citations into the bundle
+				if (options.bundle) {
+					const imagesDirPath = imagesDirectory && imagesDirectory.trim() !== '' ?
+						(path.isAbsolute(imagesDirectory) ? imagesDirectory : path.join(vaultPath, imagesDirectory)) :
+						'';
+					await finishLatexBundle({
+						bundleDirectory: path.dirname(outputPath),
+						noteName: file.basename,
+						templateName: selectedTemplate.name,
+						engine: selectedTemplate.pdfEngine || this.settings.pdfEngine || 'xelatex',
+						searchDirectories: [path.dirname(templatePath), imagesDirPath, path.dirname(fullInputPath), vaultPath].filter((directory) => directory !== ''),
+						bibliography: citationSources.bibliography,
+						csl: citationSources.csl
+					});
+					if (this.settings.bundleAsZip) {
+						await createZip(path.dirname(outputPath), bundlePath);
+					}
+					outputPath = bundlePath;
+				}
+
+				// The page count is read from the finished PDF
+				if (format.extension === 'pdf') {
+					try {
+						counts.pages = await countPdfPages(outputPath);
+					} catch (e) {
+						console.warn('Could not count PDF pages:', e);
+					}
+				}
+				limitProblems = checkLimits(counts, metadata);
+				const limitDiagnostics: Diagnostic[] = limitProblems.map((problem) => ({
+					severity: 'warning',
+					kind: 'length-limit',
+					message: `Length limit not met: ${problem}`,
+					hint: 'The limits come from wortlimit and seitenlimit in the frontmatter.'
+				}));
+				await this.recordRun(file, selectedTemplate, format, startedAt, command, result.stderr + result.stdout, sourceFiles, undefined, {
+					summary: formatCounts(counts),
+					diagnostics: limitDiagnostics
+				});
+			} catch (error) {
+				console.error("Pandoc command that failed:", command);
+				console.error("Pandoc error:", error);
+				const output = error instanceof ProcessError ? error.stderr + error.stdout : '';
+				if (this.settings.keepIntermediates && !(error instanceof ProcessError && error.cancelled)) {
+					await this.saveIntermediates(workspace, args, format, options.bundle ? bundlePath : outputPath, output, path.dirname(fullInputPath), options.signal);
+				}
+				await this.recordRun(file, selectedTemplate, format, startedAt, command, output, sourceFiles, error.message);
+				throw error;
+			}
+
+			return { outputPath, counts, limitProblems, sourceFiles };
+		} finally {
+			await workspace.dispose();
+		}
+	}
+}
+
+export class UniExportSettingsTab extends PluginSettingTab {
+    plugin: UniExport;
+    templateContainerEl: HTMLElement;
+    filterContainerEl: HTMLElement;
+    presetContainerEl: HTMLElement;
+    // Entry that is being dragged to a new position
+    dragSource: { list: unknown[], index: number } | null = null;
+    profileContainerEl: HTMLElement;
+
+    constructor(app: App, plugin: UniExport) {
+        super(app, plugin);
+        this.plugin = plugin;
+    }
+
+    display(): void {
+        const { containerEl } = this;
+
+        // Clear any existing content
+        containerEl.empty();
+
+        // Add a heading
+        containerEl.createEl('h2', { text: 'Pandoc PDF Converter Settings' });
+
+        // Example setting: Pandoc Path
+        new Setting(containerEl)
+            .setName('Pandoc Path')
+            .setDesc('Path to the pandoc executable. Default is just "pandoc" which works if pandoc is in your PATH.')
+            .addText(text => text
+                .setPlaceholder('pandoc')
+                .setValue(this.plugin.settings.pandocPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.pandocPath = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Check Setup')
+            .setDesc('Check that pandoc, a LaTeX engine, the template files and the LaTeX packages they load are installed')
+            .addButton(button => button
+                .setButtonText('Check Setup')
+                .onClick(() => this.plugin.openSetupCheck()));
+
+        // Default PDF Engine
+        new Setting(containerEl)
+            .setName('PDF Engine')
+            .setDesc('LaTeX engine used by templates that do not set their own')
+            .addDropdown(dropdown => {
+                PDF_ENGINES.forEach((engine) => dropdown.addOption(engine, engine));
+                dropdown
+                    .setValue(this.plugin.settings.pdfEngine)
+                    .onChange(async (value) => {
+                        this.plugin.settings.pdfEngine = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        // Add more settings here...
+        // For example, you can add settings for LaTeX templates, output directory, etc.
+
+        // LaTeX Templates Section
+        containerEl.createEl('h3', { text: 'LaTeX Templates' });
+
+        this.templateContainerEl = containerEl.createDiv();
+        this.refreshTemplatesUI();
+
+        // Add new template button
+        new Setting(containerEl)
+            .setName('Add Template')
+            .setDesc('Add a new LaTeX template')
+            .addButton(button => button
+                .setButtonText('Add Template')
+                .setCta()
+                .onClick(() => {
+                    this.plugin.settings.latexTemplates.push({
+                        id: createId(),
+                        name: 'New Template',
+                        path: ''
+                    });
+                    this.plugin.saveSettings().then(() => {
+                        this.refreshTemplatesUI();
+                    });
+                }));
+
+        new Setting(containerEl)
+            .setName('Create from Starter')
+            .setDesc('Copy a built-in template (Hausarbeit, Protokoll / Handout, Thesis) into the vault to customize it, and add it as a template')
+            .addButton(button => button
+                .setButtonText('Create from Starter')
+                .onClick(() => {
+                    this.plugin.openStarterTemplates(() => this.refreshTemplatesUI());
+                }));
+
+        // Output Directory
+        new Setting(containerEl)
+            .setName('Output Directory')
+            .setDesc('Directory to save PDFs (relative to vault root). Leave empty to save alongside the markdown file.')
+            .addText(text => text
+                .setPlaceholder('PDFs')
+                .setValue(this.plugin.settings.outputDirectory)
+                .onChange(async (value) => {
+                    this.plugin.settings.outputDirectory = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Output File Name
+        new Setting(containerEl)
+            .setName('Output File Name')
+            .setDesc('Pattern for the file name without extension. Placeholders: {{note}}, {{folder}} (the note\'s folder), {{template}}, {{date}} or {{date:YYYY-MM-DD}}, and any frontmatter or profile field like {{nachname}}; date fields take a format too, like {{abgabedatum:YYYY-MM-DD}}. Slashes create subfolders.')
+            .addText(text => text
+                .setPlaceholder('{{nachname}}_{{matrikel}}_{{seminar}}_{{date}}')
+                .setValue(this.plugin.settings.outputPattern)
+                .onChange(async (value) => {
+                    this.plugin.settings.outputPattern = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('When the File Exists')
+            .setDesc('What happens when an export would replace an existing file')
+            .addDropdown(dropdown => dropdown
+                .addOption('overwrite', 'Overwrite')
+                .addOption('number', 'Add a number (Note-2.pdf)')
+                .addOption('history', 'Keep the old file with its date')
+                .setValue(this.plugin.settings.conflictMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.conflictMode = value as ConflictMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Images Directory
+        new Setting(containerEl)
+            .setName('Images Directory')
+            .setDesc('Directory containing images used in your documents (relative to vault root). Leave empty to use automatic detection.')
+            .addText(text => text
+                .setPlaceholder('images')
+                .setValue(this.plugin.settings.imagesDirectory)
+                .onChange(async (value) => {
+                    this.plugin.settings.imagesDirectory = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Use Template Directory
+        new Setting(containerEl)
+            .setName('Use Template Directory')
+            .setDesc('Automatically use the template directory as a resource path for images and other assets')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.useTemplateDirectoryAsResourcePath)
+                .onChange(async (value) => {
+                    this.plugin.settings.useTemplateDirectoryAsResourcePath = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Additional Pandoc Arguments
+        new Setting(containerEl)
+            .setName('Additional Pandoc Arguments')
+            .setDesc('Additional command-line arguments to pass to pandoc. Templates with their own arguments replace these.')
+            .addText(text => text
+                .setPlaceholder('--toc -V geometry:margin=1in')
+                .setValue(this.plugin.settings.additionalPandocArgs)
+                .onChange(async (value) => {
+                    this.plugin.settings.additionalPandocArgs = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Batch Export Concurrency
+        new Setting(containerEl)
+            .setName('Parallel Exports')
+            .setDesc('How many files are converted at the same time when exporting folders or several selected files')
+            .addSlider(slider => slider
+                .setLimits(1, 8, 1)
+                .setValue(this.plugin.settings.batchConcurrency)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.batchConcurrency = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Export Timeout
+        new Setting(containerEl)
+            .setName('Export Timeout')
+            .setDesc('Seconds after which a pandoc/LaTeX run is stopped. Set to 0 to disable the timeout.')
+            .addText(text => text
+                .setPlaceholder('300')
+                .setValue(String(this.plugin.settings.exportTimeout))
+                .onChange(async (value) => {
+                    const seconds = Number(value);
+                    if (!isNaN(seconds) && seconds >= 0) {
+                        this.plugin.settings.exportTimeout = seconds;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        // Diagnostics
+        new Setting(containerEl)
+            .setName('Detailed LaTeX Log')
+            .setDesc('Capture the full LaTeX log so warnings like overfull boxes and missing characters show up in the export log')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.detailedLatexLog)
+                .onChange(async (value) => {
+                    this.plugin.settings.detailedLatexLog = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Keep Intermediate Files')
+            .setDesc('Debugging: save the generated .tex file and the pandoc log next to the output. Temporary files are always deleted.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.keepIntermediates)
+                .onChange(async (value) => {
+                    this.plugin.settings.keepIntermediates = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Open Last PDF In')
+            .setDesc('Where "Open last PDF" and the export history open output files')
+            .addDropdown(dropdown => dropdown
+                .addOption('obsidian', 'Obsidian')
+                .addOption('system', 'System viewer')
+                .setValue(this.plugin.settings.openPdfIn)
+                .onChange(async (value) => {
+                    this.plugin.settings.openPdfIn = value as 'obsidian' | 'system';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Open Log on Failure')
+            .setDesc('Open the export log when a conversion fails')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.openLogOnFailure)
+                .onChange(async (value) => {
+                    this.plugin.settings.openLogOnFailure = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Template Variable Check
+        new Setting(containerEl)
+            .setName('Check Template Variables')
+            .setDesc('Before exporting, compare the note\'s frontmatter with the $variables$ the template uses and ask about missing or empty ones')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.checkTemplateVariables)
+                .onChange(async (value) => {
+                    this.plugin.settings.checkTemplateVariables = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Lua Filters Section
+        containerEl.createEl('h3', { text: 'Lua Filters' });
 
-    constructor(app: App, plugin: UniExport) {
-        super(app, plugin);
-        this.plugin = plugin;
-    }
+        containerEl.createEl('p', {
+            text: 'Pandoc Lua filters from the vault, run from top to bottom. Drag to reorder. Templates can turn single filters on or off in their settings.',
+            cls: 'setting-item-description'
+        });
 
-    display(): void {
-        const { containerEl } = this;
+        this.filterContainerEl = containerEl.createDiv();
+        this.refreshFiltersUI();
 
-        // Clear any existing content
-        containerEl.empty();
+        new Setting(containerEl)
+            .setName('Add Lua Filter')
+            .setDesc('Add a .lua file from the vault')
+            .addButton(button => button
+                .setButtonText('Add Filter')
+                .onClick(() => {
+                    new FileSuggestModal(this.app, async (result) => {
+                        this.plugin.settings.luaFilters.push({ id: createId(), path: result, enabled: true });
+                        await this.plugin.saveSettings();
+                        this.refreshFiltersUI();
+                    }, ['lua'], 'Select Lua Filter').open();
+                }));
 
-        // Add a heading
-        containerEl.createEl('h2', { text: 'Pandoc PDF Converter Settings' });
+        // Dates in the frontmatter
+        new Setting(containerEl)
+            .setName('Date Format')
+            .setDesc('How date properties like 2025-03-01 are printed, as a moment.js format (LL is the long date of the locale)')
+            .addText(text => text
+                .setPlaceholder('D. MMMM YYYY')
+                .setValue(this.plugin.settings.dateFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.dateFormat = value;
+                    await this.plugin.saveSettings();
+                }));
 
-        // Example setting: Pandoc Path
         new Setting(containerEl)
-            .setName('Pandoc Path')
-            .setDesc('Path to the pandoc executable. Default is just "pandoc" which works if pandoc is in your PATH.')
+            .setName('Date Locale')
+            .setDesc('Language for month and day names, e.g. de or en-gb. Leave empty to use the language of Obsidian.')
             .addText(text => text
-                .setPlaceholder('pandoc')
-                .setValue(this.plugin.settings.pandocPath)
+                .setPlaceholder('de')
+                .setValue(this.plugin.settings.dateLocale)
                 .onChange(async (value) => {
-                    this.plugin.settings.pandocPath = value;
+                    this.plugin.settings.dateLocale = value.trim();
                     await this.plugin.saveSettings();
                 }));
 
-        // Add more settings here...
-        // For example, you can add settings for LaTeX templates, output directory, etc.
+        // Citations Section
+        containerEl.createEl('h3', { text: 'Citations' });
 
-        // LaTeX Templates Section
-        containerEl.createEl('h3', { text: 'LaTeX Templates' });
+        new Setting(containerEl)
+            .setName('Bibliography File')
+            .setDesc('BibTeX, CSL-JSON or CSL-YAML file (relative to vault root). Used when neither the template nor the note sets a bibliography.')
+            .addText(text => text
+                .setPlaceholder('references.bib')
+                .setValue(this.plugin.settings.bibliographyPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.bibliographyPath = value;
+                    await this.plugin.saveSettings();
+                }))
+            .addExtraButton(button => button
+                .setIcon('folder')
+                .setTooltip('Browse for bibliography file')
+                .onClick(() => {
+                    new FileSuggestModal(this.app, async (result) => {
+                        this.plugin.settings.bibliographyPath = result;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }, BIBLIOGRAPHY_EXTENSIONS, 'Select Bibliography File').open();
+                }));
 
-        this.templateContainerEl = containerEl.createDiv();
-        this.refreshTemplatesUI();
+        new Setting(containerEl)
+            .setName('Citation Style (CSL)')
+            .setDesc('CSL style file (relative to vault root). Leave empty to use the pandoc default (Chicago author-date).')
+            .addText(text => text
+                .setPlaceholder('styles/my-department.csl')
+                .setValue(this.plugin.settings.cslPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.cslPath = value;
+                    await this.plugin.saveSettings();
+                }))
+            .addExtraButton(button => button
+                .setIcon('folder')
+                .setTooltip('Browse for CSL style')
+                .onClick(() => {
+                    new FileSuggestModal(this.app, async (result) => {
+                        this.plugin.settings.cslPath = result;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }, ['csl'], 'Select Citation Style').open();
+                }));
+
+        containerEl.createEl('p', {
+            text: 'Notes can override both with the bibliography and csl frontmatter keys, written relative to the note or to the vault root. Cite with [@key] or [[@key]].'
+        });
+
+        // Output Formats Section
+        containerEl.createEl('h3', { text: 'Output Formats' });
+
+        containerEl.createEl('p', {
+            text: 'Enable other formats to get menu entries and commands for them. Frontmatter, citations and resource paths work the same for every format.',
+            cls: 'setting-item-description'
+        });
+
+        OUTPUT_FORMATS.forEach((format) => {
+            if (format.id === 'pdf') {
+                return;
+            }
+
+            const formatSettings = this.plugin.settings.formats[format.id];
+            const formatSetting = new Setting(containerEl)
+                .setName(format.label)
+                .addToggle(toggle => toggle
+                    .setValue(formatSettings.enabled)
+                    .onChange(async (value) => {
+                        formatSettings.enabled = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            if (!format.fileOption) {
+                formatSetting.setDesc('Uses the selected LaTeX template');
+                return;
+            }
+
+            formatSetting
+                .setDesc(format.fileOption === '--reference-doc' ?
+                    'Reference document for styles (relative to vault root). Leave empty for the pandoc default.' :
+                    'Pandoc template (relative to vault root). Leave empty for the pandoc default.')
+                .addText(text => text
+                    .setPlaceholder(`templates/reference.${format.fileExtensions[0]}`)
+                    .setValue(formatSettings.filePath)
+                    .onChange(async (value) => {
+                        formatSettings.filePath = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('folder')
+                    .setTooltip('Browse for file')
+                    .onClick(() => {
+                        new FileSuggestModal(this.app, async (result) => {
+                            formatSettings.filePath = result;
+                            await this.plugin.saveSettings();
+                            this.display();
+                        }, format.fileExtensions, `Select ${format.label} Template`).open();
+                    }));
+        });
 
-        // Add new template button
         new Setting(containerEl)
-            .setName('Add Template')
-            .setDesc('Add a new LaTeX template')
+            .setName('LaTeX Bundle as ZIP')
+            .setDesc('"Export LaTeX bundle" writes the LaTeX source with its images, template files and bibliography into a .zip for Overleaf. Turn off to get a folder instead.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.bundleAsZip)
+                .onChange(async (value) => {
+                    this.plugin.settings.bundleAsZip = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Export Presets Section
+        containerEl.createEl('h3', { text: 'Export Presets' });
+
+        containerEl.createEl('p', {
+            text: 'Presets combine a template, a format, extra arguments, an output directory and metadata. Each preset gets a command and an entry in the file menu.',
+            cls: 'setting-item-description'
+        });
+
+        this.presetContainerEl = containerEl.createDiv();
+        this.refreshPresetsUI();
+
+        new Setting(containerEl)
+            .setName('Add Preset')
+            .setDesc('Add a new export preset')
             .addButton(button => button
-                .setButtonText('Add Template')
-                .setCta()
-                .onClick(() => {
-                    this.plugin.settings.latexTemplates.push({
-                        name: 'New Template',
-                        path: ''
-                    });
-                    this.plugin.saveSettings().then(() => {
-                        this.refreshTemplatesUI();
+                .setButtonText('Add Preset')
+                .onClick(async () => {
+                    this.plugin.settings.presets.push({
+                        id: createId(),
+                        name: 'New Preset',
+                        templateId: '',
+                        format: 'pdf',
+                        pandocArgs: '',
+                        outputDirectory: '',
+                        outputPattern: '',
+                        metadata: ''
                     });
+                    await this.plugin.saveSettings();
+                    this.refreshPresetsUI();
                 }));
 
-        // Output Directory
+        // Obsidian Syntax Section
+        containerEl.createEl('h3', { text: 'Obsidian Syntax' });
+
+        containerEl.createEl('p', {
+            text: 'Convert markdown that only Obsidian understands. Templates can restyle callouts by defining the obsidiancallout and obsidiancalloutfolded environments and \\hl themselves.',
+            cls: 'setting-item-description'
+        });
+
+        const syntax = this.plugin.settings.obsidianSyntax;
+
         new Setting(containerEl)
-            .setName('Output Directory')
-            .setDesc('Directory to save PDFs (relative to vault root). Leave empty to save alongside the markdown file.')
-            .addText(text => text
-                .setPlaceholder('PDFs')
-                .setValue(this.plugin.settings.outputDirectory)
+            .setName('Callouts')
+            .setDesc('Export > [!note] callouts as colored boxes by type; foldable callouts get a lighter box')
+            .addToggle(toggle => toggle
+                .setValue(syntax.callouts)
                 .onChange(async (value) => {
-                    this.plugin.settings.outputDirectory = value;
+                    syntax.callouts = value;
                     await this.plugin.saveSettings();
                 }));
 
-        // Images Directory
         new Setting(containerEl)
-            .setName('Images Directory')
-            .setDesc('Directory containing images used in your documents (relative to vault root). Leave empty to use automatic detection.')
-            .addText(text => text
-                .setPlaceholder('images')
-                .setValue(this.plugin.settings.imagesDirectory)
+            .setName('Highlights')
+            .setDesc('Export ==highlighted== text with \\hl, or a colored box if the template doesn\'t define it')
+            .addToggle(toggle => toggle
+                .setValue(syntax.highlights)
                 .onChange(async (value) => {
-                    this.plugin.settings.imagesDirectory = value;
+                    syntax.highlights = value;
                     await this.plugin.saveSettings();
                 }));
 
-        // Use Template Directory
         new Setting(containerEl)
-            .setName('Use Template Directory')
-            .setDesc('Automatically use the template directory as a resource path for images and other assets')
+            .setName('Remove Comments')
+            .setDesc('Leave %% comments %% out of the export')
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.useTemplateDirectoryAsResourcePath)
+                .setValue(syntax.comments)
                 .onChange(async (value) => {
-                    this.plugin.settings.useTemplateDirectoryAsResourcePath = value;
+                    syntax.comments = value;
                     await this.plugin.saveSettings();
                 }));
 
-        // Additional Pandoc Arguments
         new Setting(containerEl)
-            .setName('Additional Pandoc Arguments')
-            .setDesc('Additional command-line arguments to pass to pandoc')
-            .addText(text => text
-                .setPlaceholder('--toc -V geometry:margin=1in')
-                .setValue(this.plugin.settings.additionalPandocArgs)
+            .setName('Inline Tags')
+            .setDesc('What happens to #tags in the text of a note')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep as text')
+                .addOption('strip', 'Remove')
+                .setValue(syntax.tags)
                 .onChange(async (value) => {
-                    this.plugin.settings.additionalPandocArgs = value;
+                    syntax.tags = value as TagMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Mermaid Diagrams')
+            .setDesc('Render ```mermaid blocks to SVG images. PDFs need rsvg-convert (librsvg) for SVG images, see "Check setup".')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.diagrams.mermaid)
+                .onChange(async (value) => {
+                    this.plugin.settings.diagrams.mermaid = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Excalidraw Drawings')
+            .setDesc('Export embedded drawings as the SVG or PNG Excalidraw exported next to them, or as an SVG from the Excalidraw plugin')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.diagrams.excalidraw)
+                .onChange(async (value) => {
+                    this.plugin.settings.diagrams.excalidraw = value;
                     await this.plugin.saveSettings();
                 }));
 
@@ -706,6 +2929,34 @@ export class UniExportSettingsTab extends PluginSettingTab {
             text: 'If you still have issues with images, you can check the error console to see the full pandoc command.'
         });
 
+        // Personal Profiles Section
+        containerEl.createEl('h3', { text: 'Personal Profiles' });
+
+        containerEl.createEl('p', {
+            text: 'Personal data that is added to every export, so it does not have to be copied into each note. Values in the note\'s frontmatter always win. Choose a profile per note with "profile: Name" in the frontmatter.',
+            cls: 'setting-item-description'
+        });
+
+        this.profileContainerEl = containerEl.createDiv();
+        this.refreshProfilesUI();
+
+        new Setting(containerEl)
+            .setName('Add Profile')
+            .setDesc('Add a profile, e.g. one per degree program')
+            .addButton(button => button
+                .setButtonText('Add Profile')
+                .onClick(async () => {
+                    const fields: Record<string, string> = {};
+                    PROFILE_FIELDS.forEach((key) => fields[key] = '');
+                    this.plugin.settings.profiles.push({
+                        id: createId(),
+                        name: this.plugin.settings.profiles.length === 0 ? 'Default' : 'New Profile',
+                        fields
+                    });
+                    await this.plugin.saveSettings();
+                    this.refreshProfilesUI();
+                }));
+
         // YAML Frontmatter Information Section
         containerEl.createEl('h3', { text: 'YAML Frontmatter Information' });
 
@@ -741,20 +2992,144 @@ abgabedatum: "1. März 2025"
         yamlInfoEl.createEl('p', {
             text: 'These variables will be available in your LaTeX template as $variable$ placeholders.'
         });
+
+        yamlInfoEl.createEl('p', {
+            text: 'The plugin adds $wordcount$ and $charcount$ of the body (without footnotes, citations and comments). Set wortlimit or seitenlimit, e.g. 3000 or "2500-3000", to get a warning when an export does not meet them.'
+        });
+
+        // Compile Information Section
+        containerEl.createEl('h3', { text: 'Compiling Multiple Notes' });
+
+        const compileInfoEl = containerEl.createEl('div', {
+            cls: 'yaml-info-container',
+        });
+
+        compileInfoEl.createEl('p', {
+            text: 'A note with a chapters list in its frontmatter is exported as one document: its own text followed by every chapter in order. Its frontmatter is used as the document metadata.'
+        });
+
+        compileInfoEl.createEl('pre', {
+            cls: 'yaml-example',
+            text: `---
+title: "Titel der Masterarbeit"
+shift-headings: 0
+chapters:
+  - "[[Einleitung]]"
+  - file: "[[Kapitel 1]]"
+    shift: 1
+  - "[[Fazit]]"
+---`
+        });
+
+        compileInfoEl.createEl('p', {
+            text: 'Alternatively set compile: true and list the chapters as links in the note body. shift-headings moves all headings of a chapter down (or up, with negative values) by that many levels.'
+        });
     }
 
+    refreshProfilesUI() {
+		this.profileContainerEl.empty();
+
+		this.plugin.settings.profiles.forEach((profile, index) => {
+			const isDefault = this.plugin.settings.activeProfileId === profile.id;
+			const profileEl = this.profileContainerEl.createDiv({ cls: 'uni-export-profile' });
+
+			const headerSetting = new Setting(profileEl)
+				.setName(`Profile ${index + 1}`)
+				.addText(text => text
+					.setPlaceholder('Profile Name')
+					.setValue(profile.name)
+					.onChange(async (value) => {
+						profile.name = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('check')
+					.setTooltip('Set as default profile')
+					.onClick(async () => {
+						this.plugin.settings.activeProfileId = isDefault ? '' : profile.id;
+						await this.plugin.saveSettings();
+						this.refreshProfilesUI();
+					}))
+				.addExtraButton(button => button
+					.setIcon('cross')
+					.setTooltip('Delete profile')
+					.onClick(async () => {
+						if (isDefault) {
+							this.plugin.settings.activeProfileId = '';
+						}
+
+						this.plugin.settings.profiles.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.refreshProfilesUI();
+					}));
+
+			this.addDragHandle(headerSetting, this.plugin.settings.profiles, index, () => this.refreshProfilesUI());
+
+			if (isDefault) {
+				headerSetting.nameEl.createSpan({
+					text: ' (Default)',
+					cls: 'default-template-indicator'
+				});
+				profileEl.addClass('default-template');
+			}
+
+			Object.keys(profile.fields).forEach((key) => {
+				const fieldSetting = new Setting(profileEl)
+					.setName(key)
+					.addText(text => text
+						.setValue(profile.fields[key])
+						.onChange(async (value) => {
+							profile.fields[key] = value;
+							await this.plugin.saveSettings();
+						}));
+
+				if (!PROFILE_FIELDS.includes(key)) {
+					fieldSetting.addExtraButton(button => button
+						.setIcon('cross')
+						.setTooltip('Remove field')
+						.onClick(async () => {
+							delete profile.fields[key];
+							await this.plugin.saveSettings();
+							this.refreshProfilesUI();
+						}));
+				}
+			});
+
+			// Add a custom field, e.g. "semester" or "pruefungsnr"
+			let newField = '';
+			new Setting(profileEl)
+				.setDesc('Add another field to this profile')
+				.addText(text => text
+					.setPlaceholder('field name')
+					.onChange((value) => {
+						newField = value.trim();
+					}))
+				.addButton(button => button
+					.setButtonText('Add Field')
+					.onClick(async () => {
+						if (newField === '' || newField in profile.fields) {
+							return;
+						}
+						profile.fields[newField] = '';
+						await this.plugin.saveSettings();
+						this.refreshProfilesUI();
+					}));
+		});
+	}
+
     refreshTemplatesUI() {
 		this.templateContainerEl.empty();
 	
 		if (this.plugin.settings.latexTemplates.length === 0) {
 			this.templateContainerEl.createEl('p', {
-				text: 'No templates defined. Add a template to get started.'
+				text: 'No templates defined. Add a template or create one from a starter to get started.'
 			});
 			return;
 		}
 	
 		// For each template, create settings
 		this.plugin.settings.latexTemplates.forEach((template, index) => {
+			const isDefault = this.plugin.settings.activeTemplateId === template.id;
 			const templateSetting = new Setting(this.templateContainerEl)
 				.setName(`Template ${index + 1}`)
 				.setDesc('Define a LaTeX template for PDF conversion')
@@ -762,25 +3137,22 @@ abgabedatum: "1. März 2025"
 					.setPlaceholder('Template Name')
 					.setValue(template.name)
 					.onChange(async (value) => {
-						this.plugin.settings.latexTemplates[index].name = value;
+						template.name = value;
 						await this.plugin.saveSettings();
 					}))
 				.addText(text => text
 					.setPlaceholder('templates/my-template.tex')
 					.setValue(template.path)
 					.onChange(async (value) => {
-						this.plugin.settings.latexTemplates[index].path = value;
+						template.path = value;
 						await this.plugin.saveSettings();
 					}))
 				.addExtraButton(button => button
 					.setIcon('cross')
 					.setTooltip('Delete template')
 					.onClick(async () => {
-						// Adjust active template index if needed
-						if (this.plugin.settings.activeTemplateIndex === index) {
-							this.plugin.settings.activeTemplateIndex = -1;
-						} else if (this.plugin.settings.activeTemplateIndex > index) {
-							this.plugin.settings.activeTemplateIndex--;
+						if (isDefault) {
+							this.plugin.settings.activeTemplateId = '';
 						}
 	
 						this.plugin.settings.latexTemplates.splice(index, 1);
@@ -792,20 +3164,20 @@ abgabedatum: "1. März 2025"
 						.setIcon('check')
 						.setTooltip('Set as default template')
 						.onClick(async () => {
-							this.plugin.settings.activeTemplateIndex = index;
+							this.plugin.settings.activeTemplateId = template.id;
 							await this.plugin.saveSettings();
 							this.refreshTemplatesUI();
 							new Notice(`Default template set to: ${template.name}`);
 						});
 	
 					// Highlight the active template
-					if (this.plugin.settings.activeTemplateIndex === index) {
+					if (isDefault) {
 						button.extraSettingsEl.addClass('active-template-button');
 					}
 				});
 	
 			// Move the if block outside the callback
-			if (this.plugin.settings.activeTemplateIndex === index) {
+			if (isDefault) {
 				templateSetting.controlEl.addClass('active-template');
 			}
 	
@@ -816,7 +3188,7 @@ abgabedatum: "1. März 2025"
 					.setTooltip('Browse for template file')
 					.onClick(async () => {
 						const modal = new FileSuggestModal(this.app, async (result) => {
-							this.plugin.settings.latexTemplates[index].path = result;
+							template.path = result;
 							await this.plugin.saveSettings();
 							this.refreshTemplatesUI();
 						});
@@ -824,14 +3196,174 @@ abgabedatum: "1. März 2025"
 					});
 			});
 	
+			// Add button for the per-template pandoc options
+			templateSetting.addExtraButton((button) => {
+				button
+					.setIcon('settings')
+					.setTooltip('Configure template')
+					.onClick(() => {
+						new TemplateSettingsModal(this.app, this.plugin, template).open();
+					});
+			});
+	
 			// Add visual indicator for default template
-			if (this.plugin.settings.activeTemplateIndex === index) {
+			if (isDefault) {
 				templateSetting.nameEl.createSpan({
 					text: ' (Default)',
 					cls: 'default-template-indicator'
 				});
 				templateSetting.settingEl.addClass('default-template');
 			}
+
+			this.addDragHandle(templateSetting, this.plugin.settings.latexTemplates, index, () => this.refreshTemplatesUI());
+		});
+	}
+
+	refreshPresetsUI() {
+		this.presetContainerEl.empty();
+
+		const presets = this.plugin.settings.presets;
+		if (presets.length === 0) {
+			this.presetContainerEl.createEl('p', {
+				text: 'No presets defined.'
+			});
+			return;
+		}
+
+		presets.forEach((preset, index) => {
+			const template = preset.templateId ? this.plugin.getTemplate(preset.templateId) : null;
+			const presetSetting = new Setting(this.presetContainerEl)
+				.setName(`Preset ${index + 1}`)
+				.setDesc(`${getOutputFormat(preset.format).label}, ${preset.templateId ? template?.name ?? 'missing template' : 'default template'}`)
+				.addText(text => text
+					.setPlaceholder('Preset Name')
+					.setValue(preset.name)
+					.onChange(async (value) => {
+						preset.name = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('settings')
+					.setTooltip('Configure preset')
+					.onClick(() => {
+						new PresetSettingsModal(this.app, this.plugin, preset, () => this.refreshPresetsUI()).open();
+					}))
+				.addExtraButton(button => button
+					.setIcon('cross')
+					.setTooltip('Delete preset')
+					.onClick(async () => {
+						presets.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.refreshPresetsUI();
+					}));
+
+			this.addDragHandle(presetSetting, presets, index, () => this.refreshPresetsUI());
+		});
+	}
+
+	refreshFiltersUI() {
+		this.filterContainerEl.empty();
+
+		const filters = this.plugin.settings.luaFilters;
+		if (filters.length === 0) {
+			this.filterContainerEl.createEl('p', {
+				text: 'No Lua filters defined.'
+			});
+			return;
+		}
+
+		filters.forEach((filter, index) => {
+			const exists = this.app.vault.getAbstractFileByPath(normalizePath(filter.path.trim())) instanceof TFile;
+			const filterSetting = new Setting(this.filterContainerEl)
+				.setName(`Filter ${index + 1}`)
+				.setDesc(exists ? '' : 'File not found in the vault')
+				.addText(text => text
+					.setPlaceholder('filters/quotes.lua')
+					.setValue(filter.path)
+					.onChange(async (value) => {
+						filter.path = value;
+						await this.plugin.saveSettings();
+					}))
+				.addToggle(toggle => toggle
+					.setTooltip('Enabled for templates that don\'t override it')
+					.setValue(filter.enabled)
+					.onChange(async (value) => {
+						filter.enabled = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('folder')
+					.setTooltip('Browse for Lua filter')
+					.onClick(() => {
+						new FileSuggestModal(this.app, async (result) => {
+							filter.path = result;
+							await this.plugin.saveSettings();
+							this.refreshFiltersUI();
+						}, ['lua'], 'Select Lua Filter').open();
+					}))
+				.addExtraButton(button => button
+					.setIcon('cross')
+					.setTooltip('Delete filter')
+					.onClick(async () => {
+						filters.splice(index, 1);
+						// Drop the per-template overrides of the deleted filter
+						this.plugin.settings.latexTemplates.forEach((template) => {
+							delete template.luaFilters?.[filter.id];
+						});
+						await this.plugin.saveSettings();
+						this.refreshFiltersUI();
+					}));
+
+			if (!exists) {
+				filterSetting.descEl.addClass('mod-warning');
+			}
+
+			this.addDragHandle(filterSetting, filters, index, () => this.refreshFiltersUI());
+		});
+	}
+
+	// Let list entries be reordered by dragging the handle in front of them
+	addDragHandle(setting: Setting, list: unknown[], index: number, refresh: () => void) {
+		const settingEl = setting.settingEl;
+		const handleEl = createDiv({ cls: 'uni-export-drag-handle' });
+		setIcon(handleEl, 'grip-vertical');
+		handleEl.draggable = true;
+		handleEl.setAttribute('aria-label', 'Drag to reorder');
+		settingEl.prepend(handleEl);
+
+		handleEl.addEventListener('dragstart', (event) => {
+			this.dragSource = { list, index };
+			event.dataTransfer?.setDragImage(settingEl, 0, 0);
+			settingEl.addClass('is-dragging');
+		});
+		handleEl.addEventListener('dragend', () => {
+			this.dragSource = null;
+			settingEl.removeClass('is-dragging');
+		});
+
+		// Entries can only be dropped into the list they came from
+		settingEl.addEventListener('dragover', (event) => {
+			if (this.dragSource?.list !== list) {
+				return;
+			}
+			event.preventDefault();
+			settingEl.addClass('is-drag-target');
+		});
+		settingEl.addEventListener('dragleave', () => {
+			settingEl.removeClass('is-drag-target');
+		});
+		settingEl.addEventListener('drop', async (event) => {
+			event.preventDefault();
+			settingEl.removeClass('is-drag-target');
+			if (this.dragSource?.list !== list || this.dragSource.index === index) {
+				return;
+			}
+
+			const [moved] = list.splice(this.dragSource.index, 1);
+			this.dragSource = null;
+			list.splice(index, 0, moved);
+			await this.plugin.saveSettings();
+			refresh();
 		});
 	}
 }
\ No newline at end of file
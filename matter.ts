@@ -0,0 +1,85 @@
+import { App, TFile, moment, normalizePath, parseLinktext } from 'obsidian';
+
+// Where the notes of a template or preset go: before the body (abstract), after the body
+// (declaration of authorship) or as appendix between the body and the back matter
+export type MatterPosition = 'before' | 'after' | 'appendix';
+
+export const MATTER_POSITIONS: { id: MatterPosition, label: string, description: string }[] = [
+	{ id: 'before', label: 'Before Body', description: 'Notes after the title page, e.g. an abstract' },
+	{ id: 'appendix', label: 'Appendix', description: 'Notes after the body and the bibliography, started with \\appendix in LaTeX' },
+	{ id: 'after', label: 'After Body', description: 'Notes at the very end, e.g. the declaration of authorship' }
+];
+
+// One note per line, as a vault path or a [[link]]
+export type MatterNotes = Partial<Record<MatterPosition, string>>;
+
+// {{name}}, the same placeholders as in the output file name
+const PLACEHOLDER_REGEX = /\{\{\s*([^}:]+?)\s*(?::([^}]*))?\}\}/g;
+
+// Notes of the preset replace those of the template per position
+export function mergeMatterNotes(template: MatterNotes | undefined, preset: MatterNotes | undefined): MatterNotes {
+	const merged: MatterNotes = {};
+	MATTER_POSITIONS.forEach(({ id }) => {
+		const value = preset?.[id]?.trim() ? preset[id] : template?.[id];
+		if (value && value.trim() !== '') {
+			merged[id] = value;
+		}
+	});
+	return merged;
+}
+
+// Resolve the lines of a note list relative to the exported note
+export function resolveNoteList(app: App, value: string, sourcePath: string): { files: TFile[], missing: string[] } {
+	const files: TFile[] = [];
+	const missing: string[] = [];
+
+	value.split(/\r?\n/).map((line) => line.trim()).filter((line) => line !== '').forEach((line) => {
+		const linktext = line.replace(/^!?\[\[/, '').replace(/\]\]$/, '').split('|')[0].trim();
+		const { path: linkpath } = parseLinktext(linktext);
+
+		let file = app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+		if (!file) {
+			const exact = app.vault.getAbstractFileByPath(normalizePath(linkpath));
+			file = exact instanceof TFile ? exact : null;
+		}
+
+		if (file) {
+			files.push(file);
+		} else {
+			missing.push(line);
+		}
+	});
+
+	return { files, missing };
+}
+
+function formatValue(value: unknown): string {
+	if (value === null || value === undefined) {
+		return '';
+	}
+	if (Array.isArray(value)) {
+		return value.map(formatValue).filter((part) => part !== '').join(', ');
+	}
+	if (typeof value === 'object') {
+		return '';
+	}
+	return String(value);
+}
+
+// Replace {{field}} with the metadata of the exported note; {{date}} falls back to today
+// Unknown placeholders are kept, so a missing value shows up in the document
+export function substituteVariables(content: string, metadata: Record<string, unknown>, dateFormat: string, dateLocale: string): string {
+	return content.replace(PLACEHOLDER_REGEX, (match, name: string, format: string | undefined) => {
+		if (metadata[name] !== undefined && metadata[name] !== null && !format) {
+			return formatValue(metadata[name]);
+		}
+		if (name === 'date' || name === 'today') {
+			const date = moment();
+			if (dateLocale) {
+				date.locale(dateLocale);
+			}
+			return date.format(format || dateFormat || 'LL');
+		}
+		return match;
+	});
+}
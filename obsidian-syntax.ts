@@ -0,0 +1,202 @@
+export type TagMode = 'keep' | 'strip';
+
+export interface SyntaxSettings {
+	// > [!note] callouts become boxes instead of quotes with a stray [!note] line
+	callouts: boolean;
+	// ==text== is highlighted instead of printed literally
+	highlights: boolean;
+	// %% comments %% are removed from the output
+	comments: boolean;
+	tags: TagMode;
+}
+
+export function defaultSyntaxSettings(): SyntaxSettings {
+	return { callouts: true, highlights: true, comments: true, tags: 'keep' };
+}
+
+// Fenced code blocks are never converted, the same pattern the preprocessor uses
+const FENCED_CODE_REGEX = /(^(?:```|~~~)[^\n]*\n[\s\S]*?^(?:```|~~~)[ \t]*$)/m;
+const INLINE_CODE_REGEX = /(`[^`\n]+`)/;
+
+const COMMENT_REGEX = /%%[\s\S]*?%%/g;
+const HIGHLIGHT_REGEX = /==(?=\S)([^\n]*?\S)==/g;
+const CALLOUT_REGEX = /^([ \t]*)>[ \t]?\[!([^\]\s]+)\]([+-]?)[ \t]*(.*)$/;
+const QUOTE_LINE_REGEX = /^([ \t]*)>[ \t]?(.*)$/;
+
+// Tags are # followed by letters, digits, _, - and /, at the start of a line or after whitespace
+const TAG_REGEX = /(^|[ \t])#([^\s!"#$%&'()*+,.:;<=>?@[\]^`{|}~\\]+)/gm;
+
+// Apply fn to the parts of the text that the regex doesn't capture
+function mapOutside(content: string, regex: RegExp, fn: (text: string) => string): string {
+	return content.split(regex).map((part, i) => i % 2 === 1 ? part : fn(part)).join('');
+}
+
+// Turn callouts into fenced divs that the bundled Lua filter renders as boxes
+function convertCallouts(text: string): string {
+	const lines = text.split('\n');
+	const result: string[] = [];
+
+	for (let i = 0; i < lines.length; i++) {
+		const match = lines[i].match(CALLOUT_REGEX);
+		if (!match) {
+			result.push(lines[i]);
+			continue;
+		}
+
+		const [, indent, type, fold, title] = match;
+		const body: string[] = [];
+		while (i + 1 < lines.length) {
+			const quoted = lines[i + 1].match(QUOTE_LINE_REGEX);
+			if (!quoted) {
+				break;
+			}
+			body.push(quoted[2]);
+			i++;
+		}
+
+		// Callouts can be nested, the inner ones are still quoted after one level is removed
+		const attributes = `.callout callout="${type.toLowerCase()}"${fold ? ` fold="${fold}"` : ''}`;
+		const content = [`::: {${attributes}}`];
+		if (title.trim() !== '') {
+			content.push('::: callout-title', title.trim(), ':::', '');
+		}
+		content.push(convertCallouts(body.join('\n')), ':::');
+
+		result.push('', ...content.map((line) => line === '' ? '' : indent + line), '');
+	}
+
+	return result.join('\n');
+}
+
+function stripTags(text: string): string {
+	return text.replace(TAG_REGEX, (match, before: string, tag: string) => {
+		// Obsidian doesn't treat purely numeric tags like #1 as tags
+		return /^[\d/-]+$/.test(tag) ? match : before;
+	});
+}
+
+// Convert Obsidian-only markdown into pandoc markdown, code is left untouched
+export function convertObsidianSyntax(content: string, settings: SyntaxSettings): string {
+	return mapOutside(content, FENCED_CODE_REGEX, (text) => {
+		if (settings.callouts) {
+			text = convertCallouts(text);
+		}
+
+		return mapOutside(text, INLINE_CODE_REGEX, (inline) => {
+			if (settings.comments) {
+				inline = inline.replace(COMMENT_REGEX, '');
+			}
+			if (settings.highlights) {
+				inline = inline.replace(HIGHLIGHT_REGEX, '[$1]{.mark}');
+			}
+			if (settings.tags === 'strip') {
+				inline = stripTags(inline);
+			}
+			return inline;
+		});
+	});
+}
+
+// LaTeX definitions for the converted callouts and highlights, passed with --include-in-header
+// Templates can define obsidiancallout, obsidiancalloutfolded and \hl themselves to change the look
+// Highlights use soul (lua-ul with LuaLaTeX) so they break across lines, without either they are emphasized
+export const SYNTAX_LATEX_PREAMBLE = `\\ifdefined\\obsidiancallout\\else
+\\usepackage{tcolorbox}
+\\tcbuselibrary{breakable}
+\\newtcolorbox{obsidiancallout}[2]{breakable, colback=#1!5!white, colframe=#1!75!black, fonttitle=\\bfseries, title={#2}}
+\\newtcolorbox{obsidiancalloutfolded}[2]{breakable, colback=white, colframe=#1!75!black, boxrule=0.4pt, fonttitle=\\bfseries, title={#2}}
+\\fi
+\\ifdefined\\hl\\else
+\\usepackage{xcolor}
+\\colorlet{obsidianhighlight}{yellow!50}
+\\ifdefined\\directlua
+\\IfFileExists{lua-ul.sty}{\\usepackage{luacolor}\\usepackage{lua-ul}\\newcommand{\\hl}[1]{\\highLight[obsidianhighlight]{#1}}}{}
+\\else
+\\IfFileExists{soul.sty}{\\usepackage{soul}\\sethlcolor{obsidianhighlight}}{}
+\\fi
+\\ifdefined\\hl\\else
+\\newcommand{\\hl}[1]{\\emph{#1}}
+\\fi
+\\fi
+`;
+
+// Lua filter that renders the converted callouts and highlights for each output format
+export const SYNTAX_LUA_FILTER = `
+local colors = {
+  note = 'blue', info = 'blue', todo = 'blue',
+  abstract = 'cyan', summary = 'cyan', tldr = 'cyan',
+  tip = 'teal', hint = 'teal', important = 'teal',
+  success = 'green', check = 'green', done = 'green',
+  question = 'orange', help = 'orange', faq = 'orange',
+  warning = 'orange', caution = 'orange', attention = 'orange',
+  failure = 'red', fail = 'red', missing = 'red',
+  danger = 'red', error = 'red', bug = 'red',
+  example = 'violet', quote = 'gray', cite = 'gray'
+}
+
+local is_latex = FORMAT:match('latex') or FORMAT:match('beamer')
+
+local function raw(text)
+  return pandoc.RawInline('latex', text)
+end
+
+function Span(span)
+  if not span.classes:includes('mark') then
+    return nil
+  end
+  if is_latex then
+    local result = pandoc.List({ raw('\\\\hl{') })
+    result:extend(span.content)
+    result:insert(raw('}'))
+    return result
+  end
+  if FORMAT:match('html') then
+    local result = pandoc.List({ pandoc.RawInline('html', '<mark>') })
+    result:extend(span.content)
+    result:insert(pandoc.RawInline('html', '</mark>'))
+    return result
+  end
+  return nil
+end
+
+function Div(div)
+  if not div.classes:includes('callout') then
+    return nil
+  end
+
+  local kind = div.attributes['callout'] or 'note'
+  local fold = div.attributes['fold'] or ''
+  local title = nil
+  local content = pandoc.List()
+  for _, block in ipairs(div.content) do
+    if title == nil and block.t == 'Div' and block.classes:includes('callout-title') then
+      title = pandoc.utils.blocks_to_inlines(block.content)
+    else
+      content:insert(block)
+    end
+  end
+  if title == nil then
+    title = pandoc.List({ pandoc.Str(kind:sub(1, 1):upper() .. kind:sub(2)) })
+  end
+
+  if is_latex then
+    local env = fold == '' and 'obsidiancallout' or 'obsidiancalloutfolded'
+    local open = pandoc.List({ raw('\\\\begin{' .. env .. '}{' .. (colors[kind] or 'gray') .. '}{') })
+    open:extend(title)
+    open:insert(raw('}'))
+    content:insert(1, pandoc.Plain(open))
+    content:insert(pandoc.RawBlock('latex', '\\\\end{' .. env .. '}'))
+    return content
+  end
+
+  -- Other formats keep the div, with the title as a bold first paragraph
+  content:insert(1, pandoc.Para({ pandoc.Strong(title) }))
+  div.content = content
+  div.classes:insert('callout-' .. kind)
+  return div
+end
+
+return {
+  { Span = Span, Div = Div }
+}
+`;
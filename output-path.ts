@@ -0,0 +1,109 @@
+import { moment } from 'obsidian';
+import * as path from 'path';
+import * as fs from 'fs';
+
+export type ConflictMode = 'overwrite' | 'number' | 'history';
+
+export const DEFAULT_OUTPUT_PATTERN = '{{note}}';
+
+// {{name}} or {{name:format}}, the format is only used for dates
+const PLACEHOLDER_REGEX = /\{\{\s*([^}:]+?)\s*(?::([^}]*))?\}\}/g;
+
+// Frontmatter dates as Obsidian stores them, e.g. 2025-03-01 or 2025-03-01T14:30
+const DATE_VALUE_REGEX = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2})?)?$/;
+
+// Characters that are not allowed in file names on Windows, macOS or Linux
+const ILLEGAL_CHARACTERS = /[<>:"/\\|?*\n\r\t]/g;
+
+export interface OutputPatternContext {
+	note: string;
+	// Vault-relative folder of the note, empty for the vault root
+	folder: string;
+	template: string;
+	metadata: Record<string, unknown>;
+}
+
+function sanitizeSegment(segment: string): string {
+	return segment
+		.replace(ILLEGAL_CHARACTERS, '_')
+		.replace(/\s+/g, ' ')
+		.trim()
+		// Windows drops trailing dots and spaces, which would make the name ambiguous
+		.replace(/[. ]+$/, '');
+}
+
+function formatValue(value: unknown): string {
+	if (value === null || value === undefined) {
+		return '';
+	}
+	if (Array.isArray(value)) {
+		return value.map(formatValue).filter((part) => part !== '').join('-');
+	}
+	if (typeof value === 'object') {
+		return '';
+	}
+	return String(value);
+}
+
+// Expand a pattern like "{{nachname}}_{{matrikel}}_{{date}}" into a relative path without extension
+// Slashes in the pattern create folders, slashes in values never do (except in {{folder}})
+export function expandOutputPattern(pattern: string, context: OutputPatternContext): string {
+	const expanded = pattern.replace(PLACEHOLDER_REGEX, (match, name: string, format: string | undefined) => {
+		switch (name) {
+			case 'note':
+				return context.note.replace(ILLEGAL_CHARACTERS, '_');
+			case 'folder':
+				return context.folder;
+			case 'template':
+				return context.template.replace(ILLEGAL_CHARACTERS, '_');
+			case 'date':
+				return moment().format(format || 'YYYY-MM-DD').replace(ILLEGAL_CHARACTERS, '-');
+			default: {
+				const value = context.metadata[name];
+				if (format && (value instanceof Date || (typeof value === 'string' && DATE_VALUE_REGEX.test(value)))) {
+					return moment(value).format(format).replace(ILLEGAL_CHARACTERS, '-');
+				}
+				return formatValue(value).replace(ILLEGAL_CHARACTERS, '_');
+			}
+		}
+	});
+
+	const segments = expanded.split(/[\\/]/)
+		.map(sanitizeSegment)
+		.filter((segment) => segment !== '' && segment !== '..');
+	return segments.length > 0 ? segments.join('/') : sanitizeSegment(context.note) || 'export';
+}
+
+function timestamp(date: Date): string {
+	return moment(date).format('YYYY-MM-DD_HH-mm-ss');
+}
+
+// Decide where to write when the output file already exists
+export async function applyConflictMode(outputPath: string, mode: ConflictMode): Promise<string> {
+	if (mode === 'overwrite' || !fs.existsSync(outputPath)) {
+		return outputPath;
+	}
+
+	const extension = path.extname(outputPath);
+	const base = outputPath.substring(0, outputPath.length - extension.length);
+
+	if (mode === 'number') {
+		let counter = 2;
+		while (fs.existsSync(`${base}-${counter}${extension}`)) {
+			counter++;
+		}
+		return `${base}-${counter}${extension}`;
+	}
+
+	// The newest export keeps the plain name, the previous one is copied aside with its time
+	// Copying instead of moving keeps the old file in place if the export fails
+	const stats = await fs.promises.stat(outputPath);
+	const copyPath = `${base}_${timestamp(stats.mtime)}${extension}`;
+	if (stats.isDirectory()) {
+		// LaTeX bundles are folders
+		await fs.promises.cp(outputPath, copyPath, { recursive: true });
+	} else {
+		await fs.promises.copyFile(outputPath, copyPath);
+	}
+	return outputPath;
+}
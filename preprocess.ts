@@ -0,0 +1,242 @@
+import { App, TFile, parseLinktext, resolveSubpath } from 'obsidian';
+import * as path from 'path';
+import { SyntaxSettings, convertObsidianSyntax } from './obsidian-syntax';
+import { DiagramRenderer, isExcalidrawFile } from './diagrams';
+
+// File extensions that are embedded as images instead of being transcluded
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'svg', 'webp'];
+
+// Matches [[...]] and ![[...]]; the inner part is split into target and alias later
+const WIKILINK_REGEX = /(!?)\[\[([^\]\n]+?)\]\]/g;
+
+// Matches standard markdown images so relative paths can be made absolute
+const MARKDOWN_IMAGE_REGEX = /!\[([^\]]*)\]\((<[^>]+>|[^)\s]+)((?:\s+"[^"]*")?)\)/g;
+
+// Matches the trailing ^block-id markers Obsidian hides in reading view
+const BLOCK_ID_REGEX = /\s+\^[A-Za-z0-9-]+$/gm;
+
+interface ParsedLink {
+	embed: boolean;
+	linkpath: string;
+	subpath: string;
+	alias: string | null;
+}
+
+// Resolves Obsidian wikilinks and note embeds into plain markdown pandoc understands
+export class MarkdownPreprocessor {
+	app: App;
+	vaultPath: string;
+	syntax: SyntaxSettings;
+	// Renders Mermaid blocks and Excalidraw drawings, null keeps them as they are
+	diagrams: DiagramRenderer | null;
+	// Every note that ended up in the output, used to map errors back to their source
+	visitedFiles: TFile[] = [];
+
+	constructor(app: App, vaultPath: string, syntax: SyntaxSettings, diagrams: DiagramRenderer | null = null) {
+		this.app = app;
+		this.vaultPath = vaultPath;
+		this.syntax = syntax;
+		this.diagrams = diagrams;
+	}
+
+	// Return the content of a note without frontmatter, with all links and embeds resolved
+	async resolveBody(file: TFile, stack: string[] = []): Promise<string> {
+		const content = await this.app.vault.cachedRead(file);
+		const body = this.extractSection(file, content, '') ?? content;
+		this.visit(file);
+		return this.resolveContent(body, file, [...stack, file.path]);
+	}
+
+	// Resolve links in already loaded content that belongs to sourceFile
+	async resolveContent(content: string, sourceFile: TFile, stack: string[]): Promise<string> {
+		// Callouts and comments first, so embeds inside them end up in the right place or not at all
+		content = convertObsidianSyntax(content, this.syntax);
+		if (this.diagrams) {
+			content = await this.diagrams.replaceMermaidBlocks(content);
+		}
+		const resolved = await this.transformOutsideCode(content, async (text) => {
+			text = this.rewriteImagePaths(text, sourceFile);
+			text = await this.replaceWikilinks(text, sourceFile, stack);
+			return text.replace(BLOCK_ID_REGEX, '');
+		});
+		return resolved;
+	}
+
+	// Apply fn to every part of the text that is not inside a code block or inline code
+	async transformOutsideCode(content: string, fn: (text: string) => Promise<string>): Promise<string> {
+		const parts = content.split(/(^(?:```|~~~)[^\n]*\n[\s\S]*?^(?:```|~~~)[ \t]*$|`[^`\n]+`)/m);
+		let result = '';
+		for (let i = 0; i < parts.length; i++) {
+			// Odd indices are the captured code segments
+			result += i % 2 === 1 ? parts[i] : await fn(parts[i]);
+		}
+		return result;
+	}
+
+	parseLink(embed: boolean, inner: string): ParsedLink {
+		// Aliases inside tables are written with an escaped pipe
+		const pipeIndex = inner.indexOf('|');
+		let target = pipeIndex >= 0 ? inner.substring(0, pipeIndex) : inner;
+		const alias = pipeIndex >= 0 ? inner.substring(pipeIndex + 1).trim() : null;
+		if (target.endsWith('\\')) {
+			target = target.slice(0, -1);
+		}
+
+		const { path: linkpath, subpath } = parseLinktext(target.trim());
+		return { embed, linkpath, subpath, alias };
+	}
+
+	async replaceWikilinks(text: string, sourceFile: TFile, stack: string[]): Promise<string> {
+		const regex = new RegExp(WIKILINK_REGEX.source, 'g');
+		let result = '';
+		let lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = regex.exec(text)) !== null) {
+			const index = match.index;
+			result += text.substring(lastIndex, index);
+			const link = this.parseLink(match[1] === '!', match[2]);
+			result += link.embed ?
+				await this.renderEmbed(link, sourceFile, stack) :
+				this.renderLinkText(link);
+			lastIndex = index + match[0].length;
+		}
+		result += text.substring(lastIndex);
+		return result;
+	}
+
+	// Links are rendered as the text Obsidian shows for them
+	renderLinkText(link: ParsedLink): string {
+		// Literature note links like [[@key]] become pandoc citations
+		if (link.linkpath.startsWith('@') && !link.subpath) {
+			return `[${link.linkpath}]`;
+		}
+
+		if (link.alias) {
+			return link.alias;
+		}
+
+		const heading = link.subpath.replace(/^#/, '');
+		if (!heading || heading.startsWith('^')) {
+			return link.linkpath;
+		}
+		return link.linkpath ? `${link.linkpath} > ${heading.replace(/#/g, ' > ')}` : heading;
+	}
+
+	async renderEmbed(link: ParsedLink, sourceFile: TFile, stack: string[]): Promise<string> {
+		const target = link.linkpath ?
+			this.app.metadataCache.getFirstLinkpathDest(link.linkpath, sourceFile.path) :
+			sourceFile;
+
+		if (!target) {
+			console.warn(`Could not resolve embed: ${link.linkpath} in ${sourceFile.path}`);
+			return this.renderLinkText(link);
+		}
+
+		if (IMAGE_EXTENSIONS.includes(target.extension.toLowerCase())) {
+			return this.renderImage(this.toAbsolutePath(target), link.alias);
+		}
+
+		// Drawings are embedded as their image, never as the JSON they are stored in
+		if (this.diagrams && isExcalidrawFile(this.app, target)) {
+			this.visit(target);
+			const imagePath = await this.diagrams.renderExcalidraw(target);
+			if (!imagePath) {
+				console.warn(`No image for the Excalidraw drawing ${target.path}, export it as SVG or PNG in Excalidraw`);
+				return this.renderLinkText(link);
+			}
+			return this.renderImage(imagePath.replace(/\\/g, '/'), link.alias);
+		}
+
+		if (target.extension !== 'md') {
+			return this.renderLinkText(link);
+		}
+
+		// The stack holds the note and section of every embed being resolved, so a note can embed its own sections
+		const embedKey = target.path + link.subpath;
+		if (stack.includes(embedKey)) {
+			console.warn(`Skipping recursive embed of ${embedKey} in ${sourceFile.path}`);
+			return this.renderLinkText(link);
+		}
+
+		const content = await this.app.vault.cachedRead(target);
+		const section = this.extractSection(target, content, link.subpath);
+		if (section === null) {
+			console.warn(`Could not find section ${link.subpath} in ${target.path}`);
+			return this.renderLinkText(link);
+		}
+
+		this.visit(target);
+		const resolved = await this.resolveContent(section, target, [...stack, embedKey]);
+		return resolved.trim();
+	}
+
+	visit(file: TFile) {
+		if (!this.visitedFiles.includes(file)) {
+			this.visitedFiles.push(file);
+		}
+	}
+
+	// Return the part of the note the subpath points to, or the note without frontmatter
+	extractSection(file: TFile, content: string, subpath: string): string | null {
+		const cache = this.app.metadataCache.getFileCache(file);
+
+		if (!subpath) {
+			const frontmatterEnd = cache?.frontmatterPosition?.end.offset;
+			return frontmatterEnd !== undefined ? content.substring(frontmatterEnd) : content;
+		}
+
+		if (!cache) {
+			return null;
+		}
+
+		const result = resolveSubpath(cache, subpath);
+		if (!result) {
+			return null;
+		}
+
+		if (result.type === 'block') {
+			const position = result.list ? result.list.position : result.block.position;
+			return content.substring(position.start.offset, position.end.offset);
+		}
+
+		return content.substring(result.start.offset, result.end ? result.end.offset : content.length);
+	}
+
+	renderImage(imagePath: string, alias: string | null): string {
+		// Obsidian uses the alias of image embeds for the size (e.g. ![[image.png|300]])
+		const size = alias ? alias.match(/^(\d+)(?:x(\d+))?$/) : null;
+		const caption = alias && !size ? alias : '';
+		let attributes = '';
+		if (size) {
+			attributes = size[2] ? `{width=${size[1]}px height=${size[2]}px}` : `{width=${size[1]}px}`;
+		}
+		return `![${caption}](<${imagePath}>)${attributes}`;
+	}
+
+	// Make relative image paths absolute so they still work from a temporary copy
+	rewriteImagePaths(text: string, sourceFile: TFile): string {
+		return text.replace(MARKDOWN_IMAGE_REGEX, (match, alt: string, url: string, title: string) => {
+			const rawUrl = url.replace(/^<|>$/g, '');
+			if (/^[a-z][a-z0-9+.-]*:/i.test(rawUrl) || path.isAbsolute(rawUrl)) {
+				return match;
+			}
+
+			let linkpath = rawUrl;
+			try {
+				linkpath = decodeURI(rawUrl);
+			} catch (e) {
+				// Keep the raw url if it is not valid percent-encoding
+			}
+
+			const target = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourceFile.path);
+			if (!target) {
+				return match;
+			}
+			return `![${alt}](<${this.toAbsolutePath(target)}>${title})`;
+		});
+	}
+
+	toAbsolutePath(file: TFile): string {
+		return path.join(this.vaultPath, file.path).replace(/\\/g, '/');
+	}
+}
@@ -0,0 +1,113 @@
+import { ItemView, ViewStateResult, WorkspaceLeaf, loadPdfJs } from 'obsidian';
+import * as path from 'path';
+import * as fs from 'fs';
+
+export const VIEW_TYPE_PDF_PREVIEW = 'uni-export-preview';
+
+interface PreviewState {
+	notePath: string;
+	pdfPath: string | null;
+}
+
+// PDF of a watched note, rendered with Obsidian's pdf.js so it can be reloaded without losing the scroll position
+export class PdfPreviewView extends ItemView {
+	notePath = '';
+	pdfPath: string | null = null;
+	statusEl: HTMLElement;
+	errorEl: HTMLElement;
+	pagesEl: HTMLElement;
+	// Only the newest render may replace the pages
+	renderCount = 0;
+
+	constructor(leaf: WorkspaceLeaf) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_PDF_PREVIEW;
+	}
+
+	getDisplayText(): string {
+		return this.notePath ? `Preview: ${path.basename(this.notePath, '.md')}` : 'PDF preview';
+	}
+
+	getIcon(): string {
+		return 'file-pdf';
+	}
+
+	getState(): Record<string, unknown> {
+		return { notePath: this.notePath, pdfPath: this.pdfPath };
+	}
+
+	async setState(state: PreviewState, result: ViewStateResult): Promise<void> {
+		this.notePath = state.notePath ?? '';
+		if (state.pdfPath && fs.existsSync(state.pdfPath)) {
+			await this.showPdf(state.pdfPath);
+		}
+		await super.setState(state, result);
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('uni-export-preview');
+
+		this.statusEl = contentEl.createDiv({ text: 'Waiting for the first export...', cls: 'uni-export-preview-status' });
+		this.errorEl = contentEl.createEl('pre', { cls: 'uni-export-preview-error' });
+		this.errorEl.hide();
+		this.pagesEl = contentEl.createDiv({ cls: 'uni-export-preview-pages' });
+	}
+
+	showRunning() {
+		this.statusEl.setText('Exporting...');
+		this.statusEl.removeClass('is-failed');
+	}
+
+	// The last good PDF stays visible below the error
+	showError(message: string) {
+		this.statusEl.setText(`Export failed at ${new Date().toLocaleTimeString()}, showing the last good PDF`);
+		this.statusEl.addClass('is-failed');
+		this.errorEl.setText(message);
+		this.errorEl.show();
+	}
+
+	async showPdf(pdfPath: string) {
+		const renderId = ++this.renderCount;
+		const data = new Uint8Array(await fs.promises.readFile(pdfPath));
+		const pdfjs = await loadPdfJs();
+		const document = await pdfjs.getDocument({ data }).promise;
+
+		try {
+			// Render into a detached element first, so the old pages stay until the new ones are ready
+			const newPagesEl = createDiv({ cls: 'uni-export-preview-pages' });
+			const width = Math.max(this.contentEl.clientWidth - 32, 200);
+			for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+				const page = await document.getPage(pageNumber);
+				const scale = width / page.getViewport({ scale: 1 }).width;
+				const viewport = page.getViewport({ scale: scale * window.devicePixelRatio });
+
+				const canvas = newPagesEl.createEl('canvas', { cls: 'uni-export-preview-page' });
+				canvas.width = viewport.width;
+				canvas.height = viewport.height;
+				canvas.style.width = `${viewport.width / window.devicePixelRatio}px`;
+				await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+
+				if (renderId !== this.renderCount) {
+					return;
+				}
+			}
+
+			const scrollTop = this.contentEl.scrollTop;
+			this.pagesEl.replaceWith(newPagesEl);
+			this.pagesEl = newPagesEl;
+			this.contentEl.scrollTop = scrollTop;
+		} finally {
+			document.destroy();
+		}
+
+		this.pdfPath = pdfPath;
+		this.statusEl.setText(`Updated at ${new Date().toLocaleTimeString()}`);
+		this.statusEl.removeClass('is-failed');
+		this.errorEl.hide();
+	}
+}
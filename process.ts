@@ -0,0 +1,192 @@
+import { ChildProcess, spawn } from 'child_process';
+
+// Error of a process that exited unsuccessfully, keeps the full output for diagnostics
+export class ProcessError extends Error {
+	exitCode: number | null;
+	stdout: string;
+	stderr: string;
+	cancelled: boolean;
+	timedOut: boolean;
+
+	constructor(message: string, exitCode: number | null, stdout: string, stderr: string, cancelled = false, timedOut = false) {
+		super(message);
+		this.name = 'ProcessError';
+		this.exitCode = exitCode;
+		this.stdout = stdout;
+		this.stderr = stderr;
+		this.cancelled = cancelled;
+		this.timedOut = timedOut;
+	}
+}
+
+export interface ProcessResult {
+	stdout: string;
+	stderr: string;
+}
+
+export interface ProcessOptions {
+	cwd?: string;
+	// Milliseconds until the process is killed, 0 disables the timeout
+	timeout?: number;
+	// Added to the environment of this process
+	env?: Record<string, string>;
+	onStdout?: (chunk: string) => void;
+	onStderr?: (chunk: string) => void;
+}
+
+// Split an argument string like a shell would, without expanding anything
+// A backslash only escapes a quote, so Windows paths like C:\Users\max\filter.lua stay as they are
+export function parseArgs(input: string): string[] {
+	const args: string[] = [];
+	let current = '';
+	let quote: string | null = null;
+	let hasToken = false;
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+
+		if (quote) {
+			if (char === quote) {
+				quote = null;
+			} else if (char === '\\' && quote === '"' && input[i + 1] === '"') {
+				current += input[++i];
+			} else {
+				current += char;
+			}
+		} else if (char === '"' || char === "'") {
+			quote = char;
+			hasToken = true;
+		} else if (char === '\\' && (input[i + 1] === '"' || input[i + 1] === "'")) {
+			current += input[++i];
+			hasToken = true;
+		} else if (/\s/.test(char)) {
+			if (hasToken) {
+				args.push(current);
+				current = '';
+				hasToken = false;
+			}
+		} else {
+			current += char;
+			hasToken = true;
+		}
+	}
+
+	if (quote) {
+		throw new Error(`Unterminated quote in arguments: ${input}`);
+	}
+	if (hasToken) {
+		args.push(current);
+	}
+	return args;
+}
+
+// Quote an argument for display in logs only, it is never passed to a shell
+export function formatCommand(command: string, args: string[]): string {
+	return [command, ...args].map((arg) => /[\s"']/.test(arg) ? `"${arg.replace(/"/g, '\\"')}"` : arg).join(' ');
+}
+
+// A spawned process that can be cancelled together with all its children
+export class RunningProcess {
+	child: ChildProcess;
+	promise: Promise<ProcessResult>;
+	cancelled = false;
+	timedOut = false;
+
+	constructor(command: string, args: string[], options: ProcessOptions = {}) {
+		// On POSIX the child gets its own process group so the whole tree can be killed
+		this.child = spawn(command, args, {
+			cwd: options.cwd,
+			env: options.env ? Object.assign({}, process.env, options.env) : undefined,
+			shell: false,
+			detached: process.platform !== 'win32',
+			windowsHide: true
+		});
+
+		this.promise = new Promise((resolve, reject) => {
+			let stdout = '';
+			let stderr = '';
+			let timer: ReturnType<typeof setTimeout> | null = null;
+
+			if (options.timeout && options.timeout > 0) {
+				timer = setTimeout(() => {
+					this.timedOut = true;
+					this.kill();
+				}, options.timeout);
+			}
+
+			this.child.stdout?.on('data', (data: Buffer) => {
+				const chunk = data.toString();
+				stdout += chunk;
+				options.onStdout?.(chunk);
+			});
+
+			this.child.stderr?.on('data', (data: Buffer) => {
+				const chunk = data.toString();
+				stderr += chunk;
+				options.onStderr?.(chunk);
+			});
+
+			this.child.on('error', (error) => {
+				if (timer) {
+					clearTimeout(timer);
+				}
+				reject(new ProcessError(`Could not start ${command}: ${error.message}`, null, stdout, stderr));
+			});
+
+			this.child.on('close', (code) => {
+				if (timer) {
+					clearTimeout(timer);
+				}
+
+				if (this.cancelled) {
+					reject(new ProcessError('Export cancelled', code, stdout, stderr, true));
+				} else if (this.timedOut) {
+					reject(new ProcessError(`${command} timed out after ${Math.round((options.timeout ?? 0) / 1000)} seconds`, code, stdout, stderr, false, true));
+				} else if (code !== 0) {
+					const lastLines = stderr.trim().split('\n').slice(-5).join('\n');
+					reject(new ProcessError(`${command} exited with code ${code}${lastLines ? `:\n${lastLines}` : ''}`, code, stdout, stderr));
+				} else {
+					resolve({ stdout, stderr });
+				}
+			});
+		});
+	}
+
+	cancel() {
+		this.cancelled = true;
+		this.kill();
+	}
+
+	// Kill the process and everything it started (pandoc runs the LaTeX engine as a child)
+	kill() {
+		const pid = this.child.pid;
+		if (pid === undefined || this.child.exitCode !== null) {
+			return;
+		}
+
+		try {
+			if (process.platform === 'win32') {
+				spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { windowsHide: true });
+			} else {
+				process.kill(-pid, 'SIGTERM');
+			}
+		} catch (e) {
+			console.warn('Could not kill process tree, killing process only:', e);
+			this.child.kill('SIGKILL');
+		}
+	}
+}
+
+// Open a file with the program the system uses for its type, like a double click in the file manager
+// The opener is not waited for, it may keep running as long as the program is open
+export function openWithSystem(filePath: string): Promise<void> {
+	const command = process.platform === 'win32' ? 'explorer.exe' : process.platform === 'darwin' ? 'open' : 'xdg-open';
+	return new Promise((resolve, reject) => {
+		const child = spawn(command, [filePath], { shell: false, detached: true, stdio: 'ignore', windowsHide: true });
+		child.on('error', (error) => reject(new Error(`Could not open ${filePath}: ${error.message}`)));
+		child.on('spawn', () => {
+			child.unref();
+			resolve();
+		});
+	});
+}
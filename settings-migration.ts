@@ -0,0 +1,59 @@
+// Version of the data.json layout, bump it together with a new step in MIGRATIONS
+export const SETTINGS_VERSION = 3;
+
+// Random id that stays the same when templates or profiles are renamed or reordered
+export function createId(): string {
+	return Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Give every entry of a saved list an id, returns the list or an empty one if it was not saved
+function assignIds(list: unknown): unknown[] {
+	const entries = Array.isArray(list) ? list : [];
+	entries.forEach((entry) => {
+		if (isRecord(entry) && !entry.id) {
+			entry.id = createId();
+		}
+	});
+	return entries;
+}
+
+// Id of the entry a saved position pointed to, empty if there is none
+function idAt(entries: unknown[], index: unknown): string {
+	const entry = typeof index === 'number' ? entries[index] : undefined;
+	return isRecord(entry) && typeof entry.id === 'string' ? entry.id : '';
+}
+
+// Each step upgrades the raw data from the version before it
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => void> = {
+	// Templates were referenced by their position in the list
+	2: (data) => {
+		const templates = assignIds(data.latexTemplates);
+		data.activeTemplateId = idAt(templates, data.activeTemplateIndex);
+		delete data.activeTemplateIndex;
+	},
+	// The default profile was referenced by its position in the list, like the templates before
+	3: (data) => {
+		const profiles = assignIds(data.profiles);
+		data.activeProfileId = idAt(profiles, data.activeProfileIndex);
+		delete data.activeProfileIndex;
+	}
+};
+
+// Upgrade settings loaded from an older version of the plugin, returns true if anything changed
+export function migrateSettings(data: Record<string, unknown>): boolean {
+	// Settings written before versioning are version 1
+	const version = typeof data.settingsVersion === 'number' ? data.settingsVersion : 1;
+	if (version >= SETTINGS_VERSION) {
+		return false;
+	}
+
+	for (let next = version + 1; next <= SETTINGS_VERSION; next++) {
+		MIGRATIONS[next]?.(data);
+	}
+	data.settingsVersion = SETTINGS_VERSION;
+	return true;
+}
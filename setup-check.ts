@@ -0,0 +1,327 @@
+import { App, Modal } from 'obsidian';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { ProcessError, RunningProcess } from './process';
+import { texInputsEnvironment } from './workspace';
+
+// Oldest pandoc the export and the starter templates are written for
+// (--embed-resources, the citeproc macros of the LaTeX writer and \pandocbounded)
+export const MIN_PANDOC_VERSION = '3.2';
+
+// Engines that are always looked for, configured engines are checked in addition
+const COMMON_ENGINES = ['xelatex', 'lualatex', 'pdflatex'];
+
+// Matches \usepackage[options]{a,b} and \RequirePackage{c}
+const PACKAGE_REGEX = /\\(?:usepackage|RequirePackage)\s*(?:\[[^\]]*\])?\s*\{([^}]+)\}/g;
+
+export type CheckStatus = 'ok' | 'info' | 'warning' | 'error';
+
+export interface CheckResult {
+	status: CheckStatus;
+	label: string;
+	detail: string;
+}
+
+export interface SetupCheckConfig {
+	pandocPath: string;
+	// Default engine first, followed by the engines set by templates
+	pdfEngines: string[];
+	templates: { name: string, path: string, pdfEngine?: string }[];
+	luaFilters: string[];
+	vaultPath: string;
+	// Milliseconds, 0 disables the timeout
+	timeout: number;
+}
+
+interface RunResult {
+	ok: boolean;
+	// The command could not be started at all
+	notFound: boolean;
+	stdout: string;
+	stderr: string;
+	error: string;
+}
+
+async function tryRun(command: string, args: string[], timeout: number, cwd?: string, env?: Record<string, string>): Promise<RunResult> {
+	try {
+		const result = await new RunningProcess(command, args, { cwd, timeout, env }).promise;
+		return { ok: true, notFound: false, stdout: result.stdout, stderr: result.stderr, error: '' };
+	} catch (error) {
+		if (error instanceof ProcessError) {
+			const notFound = error.exitCode === null && !error.timedOut;
+			return { ok: false, notFound, stdout: error.stdout, stderr: error.stderr, error: error.message };
+		}
+		return { ok: false, notFound: true, stdout: '', stderr: '', error: String(error) };
+	}
+}
+
+function firstLine(text: string): string {
+	return text.trim().split(/\r?\n/)[0] ?? '';
+}
+
+// Compare dotted version numbers, negative if a is older than b
+export function compareVersions(a: string, b: string): number {
+	const partsA = a.split('.').map(Number);
+	const partsB = b.split('.').map(Number);
+	for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+		const diff = (partsA[i] || 0) - (partsB[i] || 0);
+		if (diff !== 0) {
+			return diff;
+		}
+	}
+	return 0;
+}
+
+// Packages a LaTeX template loads, pandoc variables and commented lines are skipped
+export function scanPackages(source: string): string[] {
+	const withoutComments = source.replace(/(^|[^\\])%.*$/gm, '$1');
+	const packages = new Set<string>();
+	let match: RegExpExecArray | null;
+	const regex = new RegExp(PACKAGE_REGEX.source, 'g');
+	while ((match = regex.exec(withoutComments)) !== null) {
+		match[1].split(',').forEach((name) => {
+			const trimmed = name.trim();
+			if (trimmed !== '' && !trimmed.includes('$')) {
+				packages.add(trimmed);
+			}
+		});
+	}
+	return Array.from(packages);
+}
+
+async function checkPandoc(config: SetupCheckConfig): Promise<CheckResult> {
+	const result = await tryRun(config.pandocPath, ['--version'], config.timeout);
+	if (!result.ok) {
+		return {
+			status: 'error',
+			label: 'Pandoc',
+			detail: `Could not run "${config.pandocPath}". Install pandoc or set the full path to the executable in the settings.\n${result.error}`
+		};
+	}
+
+	const version = result.stdout.match(/pandoc(?:\.exe)? ([\d.]+)/)?.[1];
+	if (!version) {
+		return { status: 'warning', label: 'Pandoc', detail: `Unknown version: ${firstLine(result.stdout)}` };
+	}
+	if (compareVersions(version, MIN_PANDOC_VERSION) < 0) {
+		return {
+			status: 'warning',
+			label: 'Pandoc',
+			detail: `Version ${version} is older than ${MIN_PANDOC_VERSION}, some exports will fail. Please update pandoc.`
+		};
+	}
+	return { status: 'ok', label: 'Pandoc', detail: `Version ${version}` };
+}
+
+async function checkEngine(engine: string, configured: boolean, timeout: number): Promise<CheckResult> {
+	const result = await tryRun(engine, ['--version'], timeout);
+	if (result.ok) {
+		return { status: 'ok', label: engine, detail: firstLine(result.stdout) };
+	}
+	return {
+		status: configured ? 'error' : 'info',
+		label: engine,
+		detail: configured ?
+			'Not found, but used by the settings or a template. Install a TeX distribution (MiKTeX, TeX Live or MacTeX) or choose another engine.' :
+			'Not installed'
+	};
+}
+
+// Pandoc converts SVG images, including rendered diagrams, to PDF with rsvg-convert
+async function checkSvgConverter(timeout: number): Promise<CheckResult> {
+	const result = await tryRun('rsvg-convert', ['--version'], timeout);
+	if (result.ok) {
+		return { status: 'ok', label: 'rsvg-convert', detail: firstLine(result.stdout) };
+	}
+	return {
+		status: 'warning',
+		label: 'rsvg-convert',
+		detail: 'Not found. SVG images and Mermaid diagrams can\'t be included in PDFs. Install librsvg (e.g. "brew install librsvg" or "choco install rsvg-convert").'
+	};
+}
+
+function checkFile(label: string, vaultPath: string, filePath: string): CheckResult {
+	if (filePath.trim() === '') {
+		return { status: 'error', label, detail: 'No file set' };
+	}
+	return fs.existsSync(path.join(vaultPath, filePath.trim())) ?
+		{ status: 'ok', label, detail: filePath } :
+		{ status: 'error', label, detail: `File not found: ${filePath}` };
+}
+
+// Ask kpsewhich which of the packages the templates load are installed
+// Packages next to the template count as installed, the export puts that folder on the LaTeX search path
+async function checkPackages(config: SetupCheckConfig): Promise<CheckResult[]> {
+	const packagesByTemplate = new Map<string, string[]>();
+	for (const template of config.templates) {
+		const templatePath = path.join(config.vaultPath, template.path.trim());
+		if (template.path.trim() !== '' && fs.existsSync(templatePath)) {
+			const packages = scanPackages(await fs.promises.readFile(templatePath, 'utf8'))
+				.filter((name) => !fs.existsSync(path.join(path.dirname(templatePath), `${name}.sty`)));
+			packagesByTemplate.set(template.name, packages);
+		}
+	}
+
+	const allPackages = Array.from(new Set(Array.from(packagesByTemplate.values()).reduce((all, packages) => all.concat(packages), [])));
+	if (allPackages.length === 0) {
+		return [];
+	}
+
+	// kpsewhich prints the path of every file it finds and exits with 1 if any is missing
+	const result = await tryRun('kpsewhich', allPackages.map((name) => `${name}.sty`), config.timeout);
+	if (result.notFound) {
+		return [{ status: 'warning', label: 'LaTeX packages', detail: 'Could not check packages, kpsewhich was not found' }];
+	}
+
+	const installed = new Set(result.stdout.split(/\r?\n/)
+		.map((line) => (line.trim().split(/[\\/]/).pop() ?? '').replace(/\.sty$/, ''))
+		.filter((name) => name !== ''));
+
+	const results: CheckResult[] = [];
+	packagesByTemplate.forEach((packages, name) => {
+		const missing = packages.filter((packageName) => !installed.has(packageName));
+		results.push(missing.length === 0 ?
+			{ status: 'ok', label: `Packages of ${name}`, detail: `All ${packages.length} packages are installed` } :
+			{
+				status: 'error',
+				label: `Packages of ${name}`,
+				detail: `Not installed: ${missing.join(', ')}. Install them with the MiKTeX Console or "tlmgr install ${missing.join(' ')}".`
+			});
+	});
+	return results;
+}
+
+// The LaTeX errors of a failed compile, pandoc's own message if there are none
+function compileErrors(result: RunResult): string {
+	const errors = result.stderr.split(/\r?\n/).filter((line) => line.startsWith('! '));
+	return errors.length > 0 ? errors.slice(0, 5).join('\n') : result.error || 'No PDF was created';
+}
+
+// Convert a tiny document to PDF, with pandoc's default template or with the template of the settings
+async function checkTestCompile(config: SetupCheckConfig, engine: string, template?: { name: string, path: string }): Promise<CheckResult> {
+	const label = template ? `Test compile of ${template.name} (${engine})` : `Test compile (${engine})`;
+	const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'uni-export-check-'));
+	try {
+		await fs.promises.writeFile(path.join(directory, 'test.md'), '---\ntitle: Test\n---\n\n# Test\n\nUmlaute: ÄÖÜ äöü ß, *kursiv* und **fett**.\n', 'utf8');
+		const args = ['test.md', '-o', 'test.pdf', `--pdf-engine=${engine}`];
+		let env: Record<string, string> | undefined;
+		if (template) {
+			const templatePath = path.join(config.vaultPath, template.path.trim());
+			args.push(`--template=${templatePath.replace(/\\/g, '/')}`);
+			env = texInputsEnvironment([path.dirname(templatePath)]);
+		}
+
+		const result = await tryRun(config.pandocPath, args, config.timeout, directory, env);
+		if (result.ok && fs.existsSync(path.join(directory, 'test.pdf'))) {
+			return { status: 'ok', label, detail: 'A test document was converted to PDF' };
+		}
+		return { status: 'error', label, detail: compileErrors(result) };
+	} finally {
+		await fs.promises.rm(directory, { recursive: true, force: true });
+	}
+}
+
+// Run all checks, reporting each result as soon as it is known
+export async function runSetupCheck(config: SetupCheckConfig, onResult: (result: CheckResult) => void): Promise<CheckResult[]> {
+	const results: CheckResult[] = [];
+	const report = (result: CheckResult) => {
+		results.push(result);
+		onResult(result);
+	};
+
+	const pandoc = await checkPandoc(config);
+	report(pandoc);
+
+	const engines = Array.from(new Set([...COMMON_ENGINES, ...config.pdfEngines]));
+	const availableEngines: string[] = [];
+	for (const engine of engines) {
+		const result = await checkEngine(engine, config.pdfEngines.includes(engine), config.timeout);
+		if (result.status === 'ok') {
+			availableEngines.push(engine);
+		}
+		report(result);
+	}
+	report(await checkSvgConverter(config.timeout));
+
+	if (config.templates.length === 0) {
+		report({ status: 'warning', label: 'Templates', detail: 'No templates defined. Add one in the settings to export PDFs.' });
+	}
+	config.templates.forEach((template) => report(checkFile(`Template ${template.name}`, config.vaultPath, template.path)));
+	config.luaFilters.forEach((filter) => report(checkFile('Lua filter', config.vaultPath, filter)));
+
+	(await checkPackages(config)).forEach(report);
+
+	const defaultEngine = config.pdfEngines[0];
+	if (pandoc.status !== 'error' && availableEngines.includes(defaultEngine)) {
+		report(await checkTestCompile(config, defaultEngine));
+	} else {
+		report({ status: 'warning', label: 'Test compile', detail: `Skipped, pandoc or ${defaultEngine} is not available` });
+	}
+
+	// A template that is broken or needs something missing fails here like it would in an export
+	for (const template of config.templates) {
+		if (template.path.trim() === '' || !fs.existsSync(path.join(config.vaultPath, template.path.trim()))) {
+			continue;
+		}
+		const engine = template.pdfEngine || defaultEngine;
+		if (pandoc.status !== 'error' && availableEngines.includes(engine)) {
+			report(await checkTestCompile(config, engine, template));
+		} else {
+			report({ status: 'warning', label: `Test compile of ${template.name}`, detail: `Skipped, pandoc or ${engine} is not available` });
+		}
+	}
+
+	return results;
+}
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+	ok: '✓',
+	info: '–',
+	warning: '!',
+	error: '✗'
+};
+
+// Shows the results of the setup check while it runs
+export class SetupCheckModal extends Modal {
+	config: SetupCheckConfig;
+	listEl: HTMLElement;
+	summaryEl: HTMLElement;
+
+	constructor(app: App, config: SetupCheckConfig) {
+		super(app);
+		this.config = config;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: 'Setup check' });
+		this.summaryEl = contentEl.createDiv({ text: 'Checking...', cls: 'uni-export-check-summary' });
+		this.listEl = contentEl.createDiv({ cls: 'uni-export-check-list' });
+
+		runSetupCheck(this.config, (result) => this.renderResult(result)).then((results) => {
+			const errors = results.filter((result) => result.status === 'error').length;
+			const warnings = results.filter((result) => result.status === 'warning').length;
+			this.summaryEl.setText(errors === 0 && warnings === 0 ?
+				'Everything is set up.' :
+				`Finished with ${errors} error${errors === 1 ? '' : 's'} and ${warnings} warning${warnings === 1 ? '' : 's'}.`);
+		}).catch((error) => {
+			// The checks report their own problems, this is only reached if the check itself broke
+			console.error('Setup check failed:', error);
+			this.renderResult({ status: 'error', label: 'Setup check', detail: `The check could not finish: ${error.message}` });
+			this.summaryEl.setText('The setup check stopped with an error.');
+		});
+	}
+
+	renderResult(result: CheckResult) {
+		const itemEl = this.listEl.createDiv({ cls: `uni-export-check-item is-${result.status}` });
+		itemEl.createSpan({ text: `${STATUS_ICONS[result.status]} ${result.label}`, cls: 'uni-export-check-label' });
+		itemEl.createDiv({ text: result.detail, cls: 'uni-export-check-detail' });
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,351 @@
+import { App, Modal, Setting } from 'obsidian';
+import { MIN_PANDOC_VERSION } from './setup-check';
+
+// Templates that come with the plugin and are copied into the vault to be customized
+// They use the variables of the example frontmatter and need pandoc MIN_PANDOC_VERSION like the export
+export interface StarterTemplate {
+	id: string;
+	name: string;
+	description: string;
+	fileName: string;
+	content: string;
+	pandocArgs?: string;
+}
+
+// Fonts, language, images, tables, code and citeproc, what pandoc's own default template sets up
+const PREAMBLE = `\\usepackage{iftex}
+\\ifPDFTeX
+  \\usepackage[T1]{fontenc}
+  \\usepackage[utf8]{inputenc}
+  \\usepackage{lmodern}
+\\else
+  \\usepackage{fontspec}
+$if(mainfont)$
+  \\setmainfont{$mainfont$}
+$endif$
+\\fi
+\\usepackage[$if(babel-lang)$$babel-lang$$else$ngerman$endif$]{babel}
+\\usepackage{csquotes}
+\\usepackage{xcolor}
+\\usepackage{amsmath,amssymb}
+\\usepackage{graphicx}
+\\makeatletter
+\\newsavebox\\pandoc@box
+\\newcommand*\\pandocbounded[1]{%
+  \\sbox\\pandoc@box{#1}%
+  \\Gscale@div\\@tempa{\\textheight}{\\dimexpr\\ht\\pandoc@box+\\dp\\pandoc@box\\relax}%
+  \\Gscale@div\\@tempb{\\linewidth}{\\wd\\pandoc@box}%
+  \\ifdim\\@tempb\\p@<\\@tempa\\p@\\let\\@tempa\\@tempb\\fi
+  \\ifdim\\@tempa\\p@<\\p@\\scalebox{\\@tempa}{\\usebox\\pandoc@box}%
+  \\else\\usebox{\\pandoc@box}%
+  \\fi%
+}
+\\def\\fps@figure{htbp}
+\\makeatother
+\\usepackage{longtable,booktabs,array,calc}
+\\usepackage{etoolbox}
+\\makeatletter
+\\patchcmd\\longtable{\\par}{\\if@noskipsec\\mbox{}\\fi\\par}{}{}
+\\makeatother
+\\IfFileExists{footnotehyper.sty}{\\usepackage{footnotehyper}}{\\usepackage{footnote}}
+\\makesavenoteenv{longtable}
+\\usepackage{soul}
+\\providecommand{\\tightlist}{%
+  \\setlength{\\itemsep}{0pt}\\setlength{\\parskip}{0pt}}
+$if(highlighting-macros)$
+$highlighting-macros$
+$endif$
+$if(csl-refs)$
+\\NewDocumentCommand\\citeproctext{}{}
+\\NewDocumentCommand\\citeproc{mm}{%
+  \\begingroup\\def\\citeproctext{#2}\\cite{#1}\\endgroup}
+\\makeatletter
+\\let\\@cite@ofmt\\@firstofone
+\\def\\@biblabel#1{}
+\\def\\@cite#1#2{{#1\\if@tempswa , #2\\fi}}
+\\makeatother
+\\newlength{\\cslhangindent}
+\\setlength{\\cslhangindent}{1.5em}
+\\newlength{\\csllabelwidth}
+\\setlength{\\csllabelwidth}{3em}
+\\newenvironment{CSLReferences}[2]
+ {\\begin{list}{}{%
+  \\setlength{\\itemindent}{0pt}
+  \\setlength{\\leftmargin}{0pt}
+  \\setlength{\\parsep}{0pt}
+  \\ifodd #1
+   \\setlength{\\leftmargin}{\\cslhangindent}
+   \\setlength{\\itemindent}{-1\\cslhangindent}
+  \\fi
+  \\setlength{\\itemsep}{#2\\baselineskip}}}
+ {\\end{list}}
+\\newcommand{\\CSLBlock}[1]{\\hfill\\break\\parbox[t]{\\linewidth}{#1}\\par}
+\\newcommand{\\CSLLeftMargin}[1]{\\parbox[t]{\\csllabelwidth}{\\strut#1\\strut}}
+\\newcommand{\\CSLRightInline}[1]{\\parbox[t]{\\linewidth - \\csllabelwidth}{\\strut#1\\strut}\\break}
+\\newcommand{\\CSLIndent}[1]{\\hspace{\\cslhangindent}#1}
+$endif$`;
+
+const HYPERREF = `$for(header-includes)$
+$header-includes$
+$endfor$
+\\usepackage{hyperref}
+\\hypersetup{hidelinks, pdftitle={$title-meta$}, pdfauthor={$author-meta$}}
+\\urlstyle{same}`;
+
+const BODY = `$for(include-before)$
+$include-before$
+
+$endfor$
+$body$
+
+$for(include-after)$
+$include-after$
+
+$endfor$
+\\end{document}`;
+
+const HAUSARBEIT = `\\documentclass[$if(fontsize)$$fontsize$$else$12pt$endif$,a4paper]{article}
+${PREAMBLE}
+\\usepackage[left=2.5cm,right=4cm,top=2.5cm,bottom=2.5cm]{geometry}
+\\usepackage{setspace}
+\\onehalfspacing
+\\usepackage{fancyhdr}
+\\pagestyle{fancy}
+\\fancyhf{}
+\\fancyhead[L]{$if(kurztitel)$$kurztitel$$else$$title$$endif$}
+\\fancyhead[R]{$vorname$ $nachname$}
+\\fancyfoot[C]{\\thepage}
+\\setlength{\\headheight}{15pt}
+${HYPERREF}
+\\begin{document}
+
+\\begin{titlepage}
+\\begin{flushleft}
+$if(universitaet)$
+$universitaet$\\\\
+$endif$
+$if(institut)$
+$institut$\\\\
+$endif$
+$if(semester)$
+$semester$\\\\
+$endif$
+Seminar: $seminar$\\\\
+Seminarleitung: $professor$
+\\end{flushleft}
+
+\\vspace*{\\fill}
+\\begin{center}
+{\\LARGE\\bfseries $title$\\par}
+$if(subtitle)$
+\\vspace{0.5em}
+{\\large $subtitle$\\par}
+$endif$
+\\vspace{1.5em}
+Hausarbeit$if(modul)$ im Modul $modul$$endif$
+\\end{center}
+\\vspace*{\\fill}
+
+\\begin{flushleft}
+$vorname$ $nachname$\\\\
+Matrikelnummer: $matrikel$\\\\
+$if(studiengang)$
+$studiengang$\\\\
+$endif$
+$if(address)$
+$address$\\\\
+$endif$
+$if(email)$
+$email$\\\\
+$endif$
+$if(pruefungsnr)$
+Prüfungsnummer: $pruefungsnr$\\\\
+$endif$
+$if(abgabedatum)$
+Abgabedatum: $abgabedatum$
+$endif$
+\\end{flushleft}
+\\end{titlepage}
+
+\\begin{singlespace}
+\\tableofcontents
+\\end{singlespace}
+\\newpage
+
+${BODY}
+`;
+
+const PROTOKOLL = `\\documentclass[$if(fontsize)$$fontsize$$else$11pt$endif$,a4paper]{article}
+${PREAMBLE}
+\\usepackage[margin=2cm]{geometry}
+\\setlength{\\parindent}{0pt}
+\\setlength{\\parskip}{0.5em}
+\\usepackage{fancyhdr}
+\\pagestyle{fancy}
+\\fancyhf{}
+\\fancyhead[L]{$seminar$}
+\\fancyhead[R]{$vorname$ $nachname$}
+\\fancyfoot[C]{\\thepage}
+\\setlength{\\headheight}{15pt}
+${HYPERREF}
+\\begin{document}
+
+\\begin{tabular}{@{}ll@{}}
+Seminar: & $seminar$ \\\\
+$if(professor)$
+Seminarleitung: & $professor$ \\\\
+$endif$
+$if(semester)$
+Semester: & $semester$ \\\\
+$endif$
+$if(art)$$art$$else$Handout$endif$ von: & $vorname$ $nachname$ \\\\
+$if(date)$
+Datum: & $date$ \\\\
+$endif$
+\\end{tabular}
+
+\\begin{center}
+{\\Large\\bfseries $title$\\par}
+$if(subtitle)$
+\\vspace{0.3em}
+{\\large $subtitle$\\par}
+$endif$
+\\end{center}
+
+${BODY}
+`;
+
+const THESIS = `\\documentclass[$if(fontsize)$$fontsize$$else$12pt$endif$,a4paper,oneside]{report}
+${PREAMBLE}
+\\usepackage[left=3cm,right=2.5cm,top=2.5cm,bottom=2.5cm]{geometry}
+\\usepackage{setspace}
+\\onehalfspacing
+${HYPERREF}
+\\begin{document}
+
+\\begin{titlepage}
+\\centering
+$if(universitaet)$
+{\\large $universitaet$\\par}
+$endif$
+$if(institut)$
+$institut$\\par
+$endif$
+\\vspace*{\\fill}
+{\\huge\\bfseries $title$\\par}
+$if(subtitle)$
+\\vspace{0.5em}
+{\\Large $subtitle$\\par}
+$endif$
+\\vspace{2em}
+{\\large $if(arbeit)$$arbeit$$else$Abschlussarbeit$endif$$if(studiengang)$ im Studiengang $studiengang$$endif$\\par}
+\\vspace*{\\fill}
+\\begin{tabular}{@{}ll@{}}
+Vorgelegt von: & $vorname$ $nachname$ \\\\
+Matrikelnummer: & $matrikel$ \\\\
+$if(email)$
+E-Mail: & $email$ \\\\
+$endif$
+Erstgutachten: & $professor$ \\\\
+$if(zweitgutachter)$
+Zweitgutachten: & $zweitgutachter$ \\\\
+$endif$
+$if(abgabedatum)$
+Abgabedatum: & $abgabedatum$ \\\\
+$endif$
+\\end{tabular}
+\\end{titlepage}
+
+\\pagenumbering{roman}
+$if(abstract)$
+\\begin{abstract}
+$abstract$
+\\end{abstract}
+$endif$
+\\begin{singlespace}
+\\tableofcontents
+$if(lof)$
+\\listoffigures
+$endif$
+$if(lot)$
+\\listoftables
+$endif$
+\\end{singlespace}
+\\clearpage
+\\pagenumbering{arabic}
+
+${BODY}
+`;
+
+export const STARTER_TEMPLATES: StarterTemplate[] = [
+	{
+		id: 'hausarbeit',
+		name: 'Hausarbeit',
+		description: 'Term paper with title page, table of contents, 1.5 line spacing and a correction margin',
+		fileName: 'hausarbeit.tex',
+		content: HAUSARBEIT
+	},
+	{
+		id: 'protokoll',
+		name: 'Protokoll / Handout',
+		description: 'Compact minutes or handout with a header block instead of a title page, set art: Protokoll to rename it',
+		fileName: 'protokoll.tex',
+		content: PROTOKOLL
+	},
+	{
+		id: 'thesis',
+		name: 'Thesis',
+		description: 'Bachelor or master thesis with chapters, reviewers, an optional abstract and lists of figures and tables (lof, lot)',
+		fileName: 'thesis.tex',
+		content: THESIS,
+		pandocArgs: '--top-level-division=chapter'
+	}
+];
+
+export const DEFAULT_STARTER_FOLDER = 'templates';
+
+// Pick a starter and the vault folder it is copied to
+export class StarterTemplateModal extends Modal {
+	onChoose: (starter: StarterTemplate, folder: string) => void;
+	folder = DEFAULT_STARTER_FOLDER;
+
+	constructor(app: App, onChoose: (starter: StarterTemplate, folder: string) => void) {
+		super(app);
+		this.onChoose = onChoose;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: 'Create template from starter' });
+		contentEl.createEl('p', { text: `The starters need pandoc ${MIN_PANDOC_VERSION} or later and a LaTeX distribution.` });
+
+		new Setting(contentEl)
+			.setName('Folder')
+			.setDesc('Vault folder the template file is created in')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_STARTER_FOLDER)
+				.setValue(this.folder)
+				.onChange((value) => {
+					this.folder = value.trim();
+				}));
+
+		STARTER_TEMPLATES.forEach((starter) => {
+			new Setting(contentEl)
+				.setName(starter.name)
+				.setDesc(starter.description)
+				.addButton(button => button
+					.setButtonText('Create')
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onChoose(starter, this.folder);
+					}));
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
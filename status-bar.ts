@@ -0,0 +1,67 @@
+import { formatDuration } from './history';
+
+interface RunningExport {
+	label: string;
+	startedAt: number;
+}
+
+// Status bar item showing running exports with their elapsed time, then the result of the last one
+export class ExportStatusBar {
+	el: HTMLElement;
+	running: Map<number, RunningExport> = new Map();
+	nextId = 0;
+	timer: number | null = null;
+
+	constructor(el: HTMLElement, onClick: () => void) {
+		this.el = el;
+		this.el.addClass('uni-export-status');
+		this.el.addEventListener('click', onClick);
+		this.el.hide();
+	}
+
+	start(label: string): number {
+		const id = this.nextId++;
+		this.running.set(id, { label, startedAt: Date.now() });
+		if (this.timer === null) {
+			this.timer = window.setInterval(() => this.renderRunning(), 1000);
+		}
+		this.renderRunning();
+		return id;
+	}
+
+	finish(id: number, success: boolean) {
+		const run = this.running.get(id);
+		this.running.delete(id);
+		if (this.running.size > 0) {
+			this.renderRunning();
+			return;
+		}
+
+		this.stopTimer();
+		if (run) {
+			const duration = formatDuration(Date.now() - run.startedAt);
+			this.el.setText(success ? `✓ ${run.label} exported in ${duration}` : `✗ ${run.label} failed after ${duration}`);
+			this.el.toggleClass('is-failed', !success);
+			this.el.setAttr('aria-label', 'Show export history');
+		}
+	}
+
+	renderRunning() {
+		if (this.running.size === 0) {
+			return;
+		}
+		const runs = Array.from(this.running.values());
+		const startedAt = Math.min(...runs.map((run) => run.startedAt));
+		const label = runs.length === 1 ? runs[0].label : `${runs.length} notes`;
+		this.el.setText(`Exporting ${label}... ${formatDuration(Date.now() - startedAt)}`);
+		this.el.removeClass('is-failed');
+		this.el.show();
+	}
+
+	stopTimer() {
+		if (this.timer !== null) {
+			window.clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+}
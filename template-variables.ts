@@ -0,0 +1,221 @@
+import { App, Modal, Setting } from 'obsidian';
+
+// Variables pandoc fills in itself, they never have to come from the frontmatter
+const PANDOC_VARIABLES = [
+	'body', 'toc', 'header-includes', 'include-before', 'include-after', 'highlighting-macros',
+	'tables', 'graphics', 'numbersections', 'babel-lang', 'babel-otherlangs', 'polyglossia-lang',
+	'polyglossia-otherlangs', 'csl-refs', 'csl-hanging-indent', 'csl-entry-spacing', 'has-frontmatter',
+	'title-meta', 'author-meta', 'date-meta', 'beamer', 'listings', 'strikeout', 'subfigure', 'svg',
+	'verbatim-in-note', 'natbib', 'biblatex', 'bibliography', 'outputfile', 'sourcefile',
+	'pandoc-version', 'curdir', 'it',
+	// Filled in by the plugin from the counted body
+	'wordcount', 'charcount'
+];
+
+// Frontmatter keys that are used by Obsidian, pandoc or this plugin rather than the template
+const NON_TEMPLATE_KEYS = [
+	'tags', 'aliases', 'cssclasses', 'cssclass', 'publish', 'bibliography', 'csl', 'references',
+	'nocite', 'link-citations', 'lang', 'chapters', 'compile', 'shift-headings', 'profile',
+	'wortlimit', 'wordlimit', 'seitenlimit', 'pagelimit'
+];
+
+// Control keywords of the pandoc template language
+const KEYWORD_REGEX = /^(if|elseif|for)\(([^)]*)\)$|^(endif|else|endfor|sep)$/;
+
+export interface TemplateVariables {
+	// Variables printed without an $if()$ check anywhere in the template
+	required: string[];
+	// Variables the template checks with $if()$ or loops over with $for()$
+	optional: string[];
+}
+
+export interface VariableReport {
+	missing: string[];
+	empty: string[];
+	unused: string[];
+}
+
+// The frontmatter key a variable reference like author.name or title/uppercase belongs to
+function variableKey(reference: string): string | null {
+	const match = reference.trim().match(/^([A-Za-z][\w-]*)/);
+	return match ? match[1] : null;
+}
+
+// Collect the variables a pandoc template uses
+export function scanTemplateVariables(source: string): TemplateVariables {
+	const printed = new Set<string>();
+	const checked = new Set<string>();
+
+	// $-- starts a comment that runs to the end of the line
+	const withoutComments = source.replace(/\$--.*$/gm, '');
+	const regex = /\$(?:\{([^}\n]*)\}|([^$\n]*))\$/g;
+	let match: RegExpExecArray | null;
+
+	while ((match = regex.exec(withoutComments)) !== null) {
+		const inner = (match[1] ?? match[2]).trim();
+		if (inner === '') {
+			// $$ is an escaped dollar sign
+			continue;
+		}
+
+		const keyword = inner.match(KEYWORD_REGEX);
+		if (keyword) {
+			const key = keyword[2] !== undefined ? variableKey(keyword[2]) : null;
+			if (key) {
+				checked.add(key);
+			}
+			continue;
+		}
+
+		const key = variableKey(inner);
+		if (key) {
+			printed.add(key);
+		}
+	}
+
+	const isTemplateVariable = (key: string) => !PANDOC_VARIABLES.includes(key);
+	return {
+		required: Array.from(printed).filter((key) => !checked.has(key) && isTemplateVariable(key)),
+		optional: Array.from(checked).filter(isTemplateVariable)
+	};
+}
+
+// The loops pandoc fills from --include-in-header, --include-before-body and --include-after-body
+const BEGIN_DOCUMENT_REGEX = /^[ \t]*\\begin\{document\}.*$/m;
+const END_DOCUMENT_REGEX = /^[ \t]*\\end\{document\}/m;
+const HEADER_INCLUDES_LOOP = '$for(header-includes)$\n$header-includes$\n$endfor$';
+const INCLUDE_BEFORE_LOOP = '$for(include-before)$\n$include-before$\n\n$endfor$';
+const INCLUDE_AFTER_LOOP = '$for(include-after)$\n$include-after$\n\n$endfor$';
+
+// Partials like $title()$ are read from the folder of the template
+const PARTIAL_REGEX = /\$\{?\s*[\w-]+\(\)/;
+
+function usesVariable(source: string, name: string): boolean {
+	return new RegExp(`\\$\\{?\\s*(?:(?:if|for)\\()?${name}\\b`).test(source.replace(/\$--.*$/gm, ''));
+}
+
+// A copy of a LaTeX template with the include loops it lacks, so callouts, highlights and the front and
+// back matter work with hand-written templates too; null if nothing is missing or the template uses partials
+export function completeTemplate(source: string): string | null {
+	if (PARTIAL_REGEX.test(source)) {
+		return null;
+	}
+
+	let result = source;
+	if (!usesVariable(result, 'header-includes')) {
+		result = result.replace(BEGIN_DOCUMENT_REGEX, (line) => `${HEADER_INCLUDES_LOOP}\n${line}`);
+	}
+	if (!usesVariable(result, 'include-before')) {
+		result = result.replace(BEGIN_DOCUMENT_REGEX, (line) => `${line}\n${INCLUDE_BEFORE_LOOP}`);
+	}
+	if (!usesVariable(result, 'include-after')) {
+		result = result.replace(END_DOCUMENT_REGEX, (line) => `${INCLUDE_AFTER_LOOP}\n${line}`);
+	}
+	return result === source ? null : result;
+}
+
+function isEmptyValue(value: unknown): boolean {
+	return value === null || value === undefined ||
+		(typeof value === 'string' && value.trim() === '') ||
+		(Array.isArray(value) && value.length === 0);
+}
+
+// Compare the metadata of a note with the variables its template needs
+export function checkTemplateVariables(variables: TemplateVariables, metadata: Record<string, unknown>): VariableReport {
+	const used = new Set([...variables.required, ...variables.optional]);
+
+	return {
+		missing: variables.required.filter((key) => !(key in metadata)),
+		empty: variables.required.filter((key) => key in metadata && isEmptyValue(metadata[key])),
+		unused: Object.keys(metadata).filter((key) => !used.has(key) && !NON_TEMPLATE_KEYS.includes(key))
+	};
+}
+
+export interface VariableModalResult {
+	action: 'cancel' | 'continue' | 'fill';
+	values: Record<string, string>;
+	writeBack: boolean;
+}
+
+// Asks what to do about missing template variables and lets the user fill them in
+export class MissingVariablesModal extends Modal {
+	report: VariableReport;
+	templateName: string;
+	values: Record<string, string> = {};
+	writeBack = true;
+	resolve: (result: VariableModalResult) => void;
+	result: VariableModalResult | null = null;
+
+	constructor(app: App, report: VariableReport, templateName: string, resolve: (result: VariableModalResult) => void) {
+		super(app);
+		this.report = report;
+		this.templateName = templateName;
+		this.resolve = resolve;
+	}
+
+	// Open the modal and wait for the user's decision
+	static ask(app: App, report: VariableReport, templateName: string): Promise<VariableModalResult> {
+		return new Promise((resolve) => {
+			new MissingVariablesModal(app, report, templateName, resolve).open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl('h2', { text: 'Template variables' });
+		contentEl.createEl('p', {
+			text: `The template "${this.templateName}" uses variables that are missing or empty in this note.`
+		});
+
+		[...this.report.missing, ...this.report.empty].forEach((key) => {
+			new Setting(contentEl)
+				.setName(key)
+				.setDesc(this.report.missing.includes(key) ? 'Missing' : 'Empty')
+				.addText(text => text
+					.onChange((value) => {
+						this.values[key] = value;
+					}));
+		});
+
+		if (this.report.unused.length > 0) {
+			contentEl.createEl('p', {
+				text: `Not used by the template: ${this.report.unused.join(', ')}`,
+				cls: 'setting-item-description'
+			});
+		}
+
+		new Setting(contentEl)
+			.setName('Save to note properties')
+			.setDesc('Write the filled in values into the frontmatter of the note')
+			.addToggle(toggle => toggle
+				.setValue(this.writeBack)
+				.onChange((value) => {
+					this.writeBack = value;
+				}));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.finish('cancel')))
+			.addButton(button => button
+				.setButtonText('Continue anyway')
+				.onClick(() => this.finish('continue')))
+			.addButton(button => button
+				.setButtonText('Fill in and export')
+				.setCta()
+				.onClick(() => this.finish('fill')));
+	}
+
+	finish(action: VariableModalResult['action']) {
+		this.result = { action, values: this.values, writeBack: this.writeBack };
+		this.close();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		// Closing the modal without a choice cancels the export
+		this.resolve(this.result ?? { action: 'cancel', values: {}, writeBack: false });
+	}
+}
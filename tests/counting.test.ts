@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { checkLimits, countPdfPages, countText, parseLimit } from '../counting';
+import { useTempDirectory } from './temp-directory';
+
+describe('countText', () => {
+	test('counts running text only', () => {
+		const markdown = [
+			'# Einleitung',
+			'',
+			'Das ist **ein** Satz mit [einem Link](https://example.com) und einer Fußnote[^1] [@kant1781, S. 3].',
+			'',
+			'```python',
+			'print("nicht gezählt")',
+			'```',
+			'',
+			'- Punkt – $x^2$ %% Kommentar %%',
+			'',
+			'[^1]: Die Fußnote.',
+			'    Noch mehr Fußnote.'
+		].join('\n');
+
+		const counts = countText(markdown);
+		expect(counts.words).toBe(12);
+		expect(counts.characters).toBe('Einleitung Das ist ein Satz mit einem Link und einer Fußnote Punkt'.length);
+		expect(counts.pages).toBeNull();
+	});
+
+	test('counts nothing in an empty note', () => {
+		expect(countText('').words).toBe(0);
+	});
+});
+
+describe('parseLimit', () => {
+	test('reads maximums and ranges', () => {
+		expect(parseLimit({ wortlimit: 3000 }, ['wortlimit'])).toEqual({ min: null, max: 3000 });
+		expect(parseLimit({ wortlimit: '2.500–3.000' }, ['wortlimit'])).toEqual({ min: 2500, max: 3000 });
+		expect(parseLimit({ wortlimit: '', wordlimit: '100-200' }, ['wortlimit', 'wordlimit'])).toEqual({ min: 100, max: 200 });
+	});
+
+	test('ignores missing and unreadable limits', () => {
+		expect(parseLimit({}, ['wortlimit'])).toBeNull();
+		expect(parseLimit({ wortlimit: 'ca. 3000' }, ['wortlimit'])).toBeNull();
+	});
+});
+
+describe('checkLimits', () => {
+	test('reports words and pages outside the limits', () => {
+		const counts = { words: 3100, characters: 0, pages: 9 };
+		expect(checkLimits(counts, { wortlimit: 3000, seitenlimit: '10-12' })).toEqual([
+			'3100 words, 100 over the limit of 3000',
+			'9 pages, 1 under the minimum of 10'
+		]);
+	});
+
+	test('skips the page limit before a PDF exists', () => {
+		expect(checkLimits({ words: 10, characters: 0, pages: null }, { seitenlimit: 5 })).toEqual([]);
+	});
+});
+
+describe('countPdfPages', () => {
+	const tempDirectory = useTempDirectory('counting-');
+
+	async function writePdf(content: Buffer | string): Promise<string> {
+		const pdfPath = path.join(tempDirectory(), 'test.pdf');
+		await fs.promises.writeFile(pdfPath, content);
+		return pdfPath;
+	}
+
+	test('reads the count of the page tree root', async () => {
+		const pdf = '%PDF-1.5\n1 0 obj << /Type /Pages /Kids [2 0 R 3 0 R] /Count 12 >> endobj\n4 0 obj << /Count 3 /Type /Pages >> endobj\n';
+		expect(await countPdfPages(await writePdf(pdf))).toBe(12);
+	});
+
+	test('looks into compressed object streams', async () => {
+		const objects = zlib.deflateSync(Buffer.from('<< /Type /Pages /Count 7 >>', 'latin1'));
+		const pdf = Buffer.concat([
+			Buffer.from('%PDF-1.5\n5 0 obj << /Type /ObjStm /Filter /FlateDecode >>\nstream\n', 'latin1'),
+			objects,
+			Buffer.from('\nendstream\nendobj\n', 'latin1')
+		]);
+		expect(await countPdfPages(await writePdf(pdf))).toBe(7);
+	});
+
+	test('falls back to counting page objects', async () => {
+		const pdf = '%PDF-1.4\n<< /Type /Page >>\n<< /Type /Page >>\n';
+		expect(await countPdfPages(await writePdf(pdf))).toBe(2);
+		expect(await countPdfPages(await writePdf('not a pdf'))).toBeNull();
+	});
+});
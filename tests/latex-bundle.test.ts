@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { createZip } from '../latex-bundle';
+import { useTempDirectory } from './temp-directory';
+
+interface ZipEntry {
+	name: string;
+	crc: number;
+	data: Buffer;
+}
+
+// Read the archive the way unzip tools do: end record, then the central directory, then each local entry
+function readZip(zip: Buffer): ZipEntry[] {
+	const end = zip.length - 22;
+	expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+	const count = zip.readUInt16LE(end + 10);
+	let central = zip.readUInt32LE(end + 16);
+	expect(central + zip.readUInt32LE(end + 12)).toBe(end);
+
+	const entries: ZipEntry[] = [];
+	for (let i = 0; i < count; i++) {
+		expect(zip.readUInt32LE(central)).toBe(0x02014b50);
+		const nameLength = zip.readUInt16LE(central + 28);
+		const name = zip.toString('utf8', central + 46, central + 46 + nameLength);
+		const crc = zip.readUInt32LE(central + 16);
+		const size = zip.readUInt32LE(central + 24);
+		const local = zip.readUInt32LE(central + 42);
+
+		expect(zip.readUInt32LE(local)).toBe(0x04034b50);
+		expect(zip.readUInt32LE(local + 14)).toBe(crc);
+		const start = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+		const data = zlib.inflateRawSync(zip.subarray(start, start + zip.readUInt32LE(local + 18)));
+		expect(data.length).toBe(size);
+
+		entries.push({ name, crc, data });
+		central += 46 + nameLength;
+	}
+	return entries;
+}
+
+describe('createZip', () => {
+	const tempDirectory = useTempDirectory('latex-bundle-');
+
+	test('packs nested files with their relative names', async () => {
+		const directory = tempDirectory();
+		const source = path.join(directory, 'bundle');
+		await fs.promises.mkdir(path.join(source, 'images'), { recursive: true });
+		await fs.promises.writeFile(path.join(source, 'main.tex'), '\\documentclass{article}\n'.repeat(50));
+		await fs.promises.writeFile(path.join(source, 'images', 'Übersicht.png'), Buffer.from([0, 1, 2, 255]));
+		await fs.promises.writeFile(path.join(source, 'empty.bib'), '');
+
+		const zipPath = path.join(directory, 'bundle.zip');
+		await createZip(source, zipPath);
+		const entries = readZip(await fs.promises.readFile(zipPath));
+
+		expect(entries.map((entry) => entry.name).sort()).toEqual(['empty.bib', 'images/Übersicht.png', 'main.tex']);
+		for (const entry of entries) {
+			expect(entry.data.equals(await fs.promises.readFile(path.join(source, entry.name)))).toBe(true);
+		}
+	});
+
+	test('writes the standard CRC-32', async () => {
+		const directory = tempDirectory();
+		const source = path.join(directory, 'bundle');
+		await fs.promises.mkdir(source);
+		await fs.promises.writeFile(path.join(source, 'check.txt'), '123456789');
+
+		const zipPath = path.join(directory, 'bundle.zip');
+		await createZip(source, zipPath);
+
+		expect(readZip(await fs.promises.readFile(zipPath))[0].crc).toBe(0xcbf43926);
+	});
+
+	test('writes a valid archive for an empty folder', async () => {
+		const directory = tempDirectory();
+		const zipPath = path.join(directory, 'empty.zip');
+		await createZip(directory, zipPath);
+
+		expect(readZip(await fs.promises.readFile(zipPath))).toEqual([]);
+	});
+});
@@ -0,0 +1,23 @@
+import { convertObsidianSyntax, defaultSyntaxSettings } from '../obsidian-syntax';
+
+describe('convertObsidianSyntax', () => {
+	const settings = defaultSyntaxSettings();
+
+	test('removes comments and keeps %% inside code', () => {
+		expect(convertObsidianSyntax('a %% hidden %% b `a %% b %% c`', settings)).toBe('a  b `a %% b %% c`');
+		expect(convertObsidianSyntax('before\n%%\nhidden\n%%\nafter', settings)).toBe('before\n\nafter');
+		expect(convertObsidianSyntax('```\n%% kept %%\n```', settings)).toBe('```\n%% kept %%\n```');
+	});
+
+	test('keeps comments when turned off', () => {
+		expect(convertObsidianSyntax('a %% kept %% b', { ...settings, comments: false })).toBe('a %% kept %% b');
+	});
+
+	test('converts highlights outside code', () => {
+		expect(convertObsidianSyntax('==wichtig== `==code==`', settings)).toBe('[wichtig]{.mark} `==code==`');
+	});
+
+	test('strips tags but not headings or numbers', () => {
+		expect(convertObsidianSyntax('# Titel\nText #uni/seminar und #1', { ...settings, tags: 'strip' })).toBe('# Titel\nText  und #1');
+	});
+});
@@ -0,0 +1,25 @@
+// Runtime stand-in for the parts of the Obsidian API that the tested modules import
+import type { CachedMetadata } from 'obsidian';
+import * as moment from 'moment';
+
+export { moment };
+
+// Same split as Obsidian: the subpath starts at the first # and keeps it
+export function parseLinktext(linktext: string): { path: string, subpath: string } {
+	const index = linktext.indexOf('#');
+	return index >= 0 ?
+		{ path: linktext.substring(0, index), subpath: linktext.substring(index) } :
+		{ path: linktext, subpath: '' };
+}
+
+// Headings only: the section runs from the heading to the next heading of the same or a higher level
+export function resolveSubpath(cache: CachedMetadata, subpath: string) {
+	const headings = cache.headings ?? [];
+	const index = headings.findIndex((heading) => heading.heading === subpath.replace(/^#/, ''));
+	if (index < 0) {
+		return null;
+	}
+	const current = headings[index];
+	const next = headings.slice(index + 1).find((heading) => heading.level <= current.level) ?? null;
+	return { type: 'heading', current, next, start: current.position.start, end: next ? next.position.start : null };
+}
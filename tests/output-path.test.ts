@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { applyConflictMode, expandOutputPattern, OutputPatternContext } from '../output-path';
+import { useTempDirectory } from './temp-directory';
+
+function context(metadata: Record<string, unknown> = {}): OutputPatternContext {
+	return { note: 'Hausarbeit', folder: 'Uni/Semester 3', template: 'Seminar', metadata };
+}
+
+describe('expandOutputPattern', () => {
+	test('fills the built-in placeholders', () => {
+		expect(expandOutputPattern('{{folder}}/{{template}}-{{note}}', context())).toBe('Uni/Semester 3/Seminar-Hausarbeit');
+	});
+
+	test('fills frontmatter fields and joins lists', () => {
+		const metadata = { nachname: 'Müller', matrikel: 123456, tags: ['a', '', 'b'] };
+		expect(expandOutputPattern('{{nachname}}_{{matrikel}}_{{tags}}', context(metadata))).toBe('Müller_123456_a-b');
+	});
+
+	test('formats the export date and frontmatter dates', () => {
+		const year = new Date().getFullYear();
+		expect(expandOutputPattern('{{note}}_{{date:YYYY}}', context())).toBe(`Hausarbeit_${year}`);
+		expect(expandOutputPattern('{{abgabe:DD.MM.YYYY}}', context({ abgabe: '2025-03-01' }))).toBe('01.03.2025');
+		expect(expandOutputPattern('{{abgabe:HH:mm}}', context({ abgabe: '2025-03-01T14:30' }))).toBe('14-30');
+		expect(expandOutputPattern('{{titel:YYYY}}', context({ titel: 'Kein Datum' }))).toBe('Kein Datum');
+	});
+
+	test('keeps slashes in values from creating folders', () => {
+		expect(expandOutputPattern('{{titel}}', context({ titel: 'Ja/Nein: eine Frage?' }))).toBe('Ja_Nein_ eine Frage_');
+	});
+
+	test('drops empty and parent segments', () => {
+		expect(expandOutputPattern('../{{missing}}/ {{note}}. ', context())).toBe('Hausarbeit');
+	});
+
+	test('falls back to the note name', () => {
+		expect(expandOutputPattern('{{missing}}', context())).toBe('Hausarbeit');
+		expect(expandOutputPattern('', { ...context(), note: '...' })).toBe('export');
+	});
+});
+
+describe('applyConflictMode', () => {
+	const tempDirectory = useTempDirectory('output-path-');
+
+	test('keeps the path when nothing exists or overwriting', async () => {
+		const directory = tempDirectory();
+		const outputPath = path.join(directory, 'a.pdf');
+		expect(await applyConflictMode(outputPath, 'number')).toBe(outputPath);
+		await fs.promises.writeFile(outputPath, 'old');
+		expect(await applyConflictMode(outputPath, 'overwrite')).toBe(outputPath);
+	});
+
+	test('numbers files and folders', async () => {
+		const directory = tempDirectory();
+		await fs.promises.writeFile(path.join(directory, 'a.pdf'), 'old');
+		await fs.promises.writeFile(path.join(directory, 'a-2.pdf'), 'old');
+		expect(await applyConflictMode(path.join(directory, 'a.pdf'), 'number')).toBe(path.join(directory, 'a-3.pdf'));
+
+		await fs.promises.mkdir(path.join(directory, 'a-latex'));
+		expect(await applyConflictMode(path.join(directory, 'a-latex'), 'number')).toBe(path.join(directory, 'a-latex-2'));
+	});
+
+	test('copies the previous file and folder aside in history mode', async () => {
+		const directory = tempDirectory();
+		const outputPath = path.join(directory, 'a.pdf');
+		await fs.promises.writeFile(outputPath, 'old');
+		const bundlePath = path.join(directory, 'a-latex');
+		await fs.promises.mkdir(bundlePath);
+		await fs.promises.writeFile(path.join(bundlePath, 'a.tex'), 'tex');
+
+		expect(await applyConflictMode(outputPath, 'history')).toBe(outputPath);
+		expect(await applyConflictMode(bundlePath, 'history')).toBe(bundlePath);
+
+		const names = (await fs.promises.readdir(directory)).sort();
+		expect(names).toHaveLength(4);
+		const pdfCopy = names.find((name) => /^a_\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}\.pdf$/.test(name));
+		const bundleCopy = names.find((name) => /^a-latex_\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}$/.test(name));
+		expect(pdfCopy).toBeDefined();
+		expect(bundleCopy).toBeDefined();
+		expect(await fs.promises.readFile(path.join(directory, pdfCopy as string), 'utf8')).toBe('old');
+		expect(await fs.promises.readFile(path.join(directory, bundleCopy as string, 'a.tex'), 'utf8')).toBe('tex');
+	});
+});
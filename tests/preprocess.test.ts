@@ -0,0 +1,99 @@
+import { App, CachedMetadata, HeadingCache, TFile } from 'obsidian';
+import { defaultSyntaxSettings } from '../obsidian-syntax';
+import { MarkdownPreprocessor } from '../preprocess';
+
+// The headings of a note with the offsets extractSection reads
+function headingCache(content: string): CachedMetadata {
+	const headings: HeadingCache[] = [];
+	const regex = /^(#{1,6}) (.*)$/gm;
+	let match: RegExpExecArray | null;
+	while ((match = regex.exec(content)) !== null) {
+		const start = { line: 0, col: 0, offset: match.index };
+		const end = { line: 0, col: 0, offset: match.index + match[0].length };
+		headings.push({ heading: match[2], level: match[1].length, position: { start, end } });
+	}
+	return { headings };
+}
+
+// A vault of markdown notes keyed by their path, links resolve by the file name without extension
+function createPreprocessor(notes: Record<string, string>): { preprocessor: MarkdownPreprocessor, files: Record<string, TFile> } {
+	const files: Record<string, TFile> = {};
+	for (const notePath of Object.keys(notes)) {
+		const name = notePath.split('/').pop() as string;
+		files[notePath] = { path: notePath, basename: name.replace(/\.md$/, ''), extension: 'md' } as TFile;
+	}
+
+	const app = {
+		vault: {
+			cachedRead: async (file: TFile) => notes[file.path]
+		},
+		metadataCache: {
+			getFirstLinkpathDest: (linkpath: string) => Object.values(files).find((file) => file.basename === linkpath) ?? null,
+			getFileCache: (file: TFile) => headingCache(notes[file.path])
+		}
+	} as unknown as App;
+
+	return { preprocessor: new MarkdownPreprocessor(app, '/vault', defaultSyntaxSettings()), files };
+}
+
+describe('MarkdownPreprocessor', () => {
+	let warn: jest.SpyInstance;
+
+	beforeEach(() => {
+		warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		warn.mockRestore();
+	});
+
+	test('transcludes embeds and renders links as their text', async () => {
+		const { preprocessor, files } = createPreprocessor({
+			'Main.md': 'Intro [[Other|see other]] and [[Other#Part]].\n\n![[Chapter]]',
+			'Chapter.md': 'Chapter text ^block-1\n'
+		});
+
+		expect(await preprocessor.resolveBody(files['Main.md'])).toBe('Intro see other and Other > Part.\n\nChapter text');
+	});
+
+	test('stops at embeds that include themselves', async () => {
+		const { preprocessor, files } = createPreprocessor({
+			'A.md': 'A start\n\n![[B]]',
+			'B.md': 'B start\n\n![[A]]\n\n![[B]]'
+		});
+
+		expect(await preprocessor.resolveBody(files['A.md'])).toBe('A start\n\nB start\n\nA\n\nB');
+		expect(warn).toHaveBeenCalledTimes(2);
+	});
+
+	test('embeds sections of the same note', async () => {
+		const { preprocessor, files } = createPreprocessor({
+			'Main.md': 'See below:\n\n![[#Details]]\n\n# Details\n\nThe details.',
+			'Loop.md': '# Part\n\nText ![[#Part]]'
+		});
+
+		expect(await preprocessor.resolveBody(files['Main.md'])).toBe('See below:\n\n# Details\n\nThe details.\n\n# Details\n\nThe details.');
+		expect(warn).not.toHaveBeenCalled();
+
+		expect(await preprocessor.resolveBody(files['Loop.md'])).toBe('# Part\n\nText # Part\n\nText Part');
+		expect(warn).toHaveBeenCalledTimes(1);
+	});
+
+	test('embeds the same note twice when it is not a cycle', async () => {
+		const { preprocessor, files } = createPreprocessor({
+			'Main.md': '![[Note]] ![[Note]]',
+			'Note.md': 'text'
+		});
+
+		expect(await preprocessor.resolveBody(files['Main.md'])).toBe('text text');
+		expect(warn).not.toHaveBeenCalled();
+	});
+
+	test('leaves links in code alone', async () => {
+		const { preprocessor, files } = createPreprocessor({
+			'Main.md': '`![[Note]]`\n\n```\n[[Note]]\n```\n'
+		});
+
+		expect(await preprocessor.resolveBody(files['Main.md'])).toBe('`![[Note]]`\n\n```\n[[Note]]\n```\n');
+	});
+});
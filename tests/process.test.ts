@@ -0,0 +1,46 @@
+import { formatCommand, parseArgs } from '../process';
+
+describe('parseArgs', () => {
+	test('splits on whitespace', () => {
+		expect(parseArgs('  --toc   --number-sections\t-V fontsize=12pt ')).toEqual(['--toc', '--number-sections', '-V', 'fontsize=12pt']);
+	});
+
+	test('keeps quoted whitespace in one argument', () => {
+		expect(parseArgs('--metadata="title=Meine Arbeit" -V \'mainfont=Linux Libertine\''))
+			.toEqual(['--metadata=title=Meine Arbeit', '-V', 'mainfont=Linux Libertine']);
+	});
+
+	test('only treats backslashes before quotes as escapes', () => {
+		expect(parseArgs('a\\ b "c\\"d" \\"e \'f\\g\' "h\\i"')).toEqual(['a\\', 'b', 'c"d', '"e', 'f\\g', 'h\\i']);
+	});
+
+	test('keeps Windows paths as they are', () => {
+		expect(parseArgs('--lua-filter=C:\\Users\\max\\filters\\quotes.lua --resource-path="C:\\Users\\max\\My Vault"'))
+			.toEqual(['--lua-filter=C:\\Users\\max\\filters\\quotes.lua', '--resource-path=C:\\Users\\max\\My Vault']);
+	});
+
+	test('keeps empty quoted arguments', () => {
+		expect(parseArgs('-V title="" --toc')).toEqual(['-V', 'title=', '--toc']);
+		expect(parseArgs('""')).toEqual(['']);
+	});
+
+	test('returns nothing for an empty string', () => {
+		expect(parseArgs('')).toEqual([]);
+		expect(parseArgs('   ')).toEqual([]);
+	});
+
+	test('rejects unterminated quotes', () => {
+		expect(() => parseArgs('--metadata="title')).toThrow('Unterminated quote');
+	});
+});
+
+describe('formatCommand', () => {
+	test('quotes only arguments that need it', () => {
+		expect(formatCommand('pandoc', ['in.md', '-o', 'my file.pdf', '--metadata=x"y'])).toBe('pandoc in.md -o "my file.pdf" "--metadata=x\\"y"');
+	});
+
+	test('round-trips through parseArgs', () => {
+		const args = ['--lua-filter=C:\\filters\\a b.lua', '$HOME', 'plain'];
+		expect(parseArgs(formatCommand('pandoc', args))).toEqual(['pandoc', ...args]);
+	});
+});
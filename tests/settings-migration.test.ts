@@ -0,0 +1,70 @@
+import { createId, migrateSettings, SETTINGS_VERSION } from '../settings-migration';
+
+// data.json as older versions of the plugin wrote it
+type RawSettings = {
+	settingsVersion?: number;
+	latexTemplates?: { name: string; id?: string }[];
+	activeTemplateIndex?: number;
+	activeTemplateId?: string;
+	profiles?: { name: string; id?: string }[];
+	activeProfileIndex?: number;
+	activeProfileId?: string;
+};
+
+describe('migrateSettings', () => {
+	test('upgrades unversioned settings to ids', () => {
+		const data: RawSettings = {
+			latexTemplates: [{ name: 'Seminar' }, { name: 'Thesis', id: 'thesis' }],
+			activeTemplateIndex: 1,
+			profiles: [{ name: 'Uni' }, { name: 'Arbeit' }],
+			activeProfileIndex: 0
+		};
+
+		expect(migrateSettings(data)).toBe(true);
+		expect(data.settingsVersion).toBe(SETTINGS_VERSION);
+		expect(data.latexTemplates?.[0].id).toEqual(expect.any(String));
+		expect(data.latexTemplates?.[1].id).toBe('thesis');
+		expect(data.activeTemplateId).toBe('thesis');
+		expect(data.profiles?.map((profile) => profile.id)).toEqual([expect.any(String), expect.any(String)]);
+		expect(data.activeProfileId).toBe(data.profiles?.[0].id);
+		expect(data).not.toHaveProperty('activeTemplateIndex');
+		expect(data).not.toHaveProperty('activeProfileIndex');
+	});
+
+	test('runs only the steps after the stored version', () => {
+		const data: RawSettings = {
+			settingsVersion: 2,
+			activeTemplateId: 'thesis',
+			latexTemplates: [{ name: 'Thesis', id: 'thesis' }],
+			profiles: [{ name: 'Uni' }],
+			activeProfileIndex: 0
+		};
+
+		expect(migrateSettings(data)).toBe(true);
+		expect(data.activeTemplateId).toBe('thesis');
+		expect(data.activeProfileId).toBe(data.profiles?.[0].id);
+	});
+
+	test('clears selections that point outside the list', () => {
+		const data: RawSettings = { latexTemplates: [{ name: 'Seminar' }], activeTemplateIndex: 3, activeProfileIndex: -1 };
+
+		migrateSettings(data);
+		expect(data.activeTemplateId).toBe('');
+		expect(data.activeProfileId).toBe('');
+		expect(data.profiles).toBeUndefined();
+	});
+
+	test('leaves current settings alone', () => {
+		const data: RawSettings = { settingsVersion: SETTINGS_VERSION, activeProfileIndex: 0 };
+
+		expect(migrateSettings(data)).toBe(false);
+		expect(data).toEqual({ settingsVersion: SETTINGS_VERSION, activeProfileIndex: 0 });
+	});
+});
+
+describe('createId', () => {
+	test('creates distinct ids', () => {
+		const ids = new Set(Array.from({ length: 100 }, createId));
+		expect(ids.size).toBe(100);
+	});
+});
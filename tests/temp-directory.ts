@@ -0,0 +1,18 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Give every test of the surrounding describe block its own empty folder, removed again after the test
+export function useTempDirectory(prefix: string): () => string {
+	let directory = '';
+
+	beforeEach(async () => {
+		directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), prefix));
+	});
+
+	afterEach(async () => {
+		await fs.promises.rm(directory, { recursive: true, force: true });
+	});
+
+	return () => directory;
+}
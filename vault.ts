@@ -0,0 +1,10 @@
+import { App, FileSystemAdapter } from 'obsidian';
+
+// Absolute path of the vault folder; pandoc reads and writes real files, so the vault has to be one on disk
+export function getVaultPath(app: App): string {
+	const adapter = app.vault.adapter;
+	if (!(adapter instanceof FileSystemAdapter)) {
+		throw new Error('This plugin only works with a local vault');
+	}
+	return adapter.getBasePath();
+}
@@ -0,0 +1,111 @@
+// Wait this long after the last change before exporting, saving while typing changes the note often
+export const WATCH_DELAY = 1500;
+
+interface WatchTarget {
+	notePath: string;
+	templateId: string;
+	// Vault paths that trigger an export: the note, transcluded notes and the template
+	dependencies: Set<string>;
+	timer: ReturnType<typeof setTimeout> | null;
+	running: boolean;
+	// A change came in while an export was running
+	pending: boolean;
+}
+
+// Runs the export for a note again when it or anything it depends on changes
+// The runner returns the dependencies of the export, or null to keep the previous ones after a failure
+export class ExportWatcher {
+	targets: Map<string, WatchTarget> = new Map();
+	runner: (notePath: string, templateId: string) => Promise<string[] | null>;
+
+	constructor(runner: (notePath: string, templateId: string) => Promise<string[] | null>) {
+		this.runner = runner;
+	}
+
+	isWatching(notePath: string): boolean {
+		return this.targets.has(notePath);
+	}
+
+	// Start watching and export right away
+	watch(notePath: string, templateId: string) {
+		const target: WatchTarget = {
+			notePath,
+			templateId,
+			dependencies: new Set([notePath]),
+			timer: null,
+			running: false,
+			pending: false
+		};
+		this.targets.set(notePath, target);
+		this.run(target);
+	}
+
+	unwatch(notePath: string) {
+		const target = this.targets.get(notePath);
+		if (target?.timer) {
+			clearTimeout(target.timer);
+		}
+		this.targets.delete(notePath);
+	}
+
+	unwatchAll() {
+		Array.from(this.targets.keys()).forEach((notePath) => this.unwatch(notePath));
+	}
+
+	fileChanged(filePath: string) {
+		this.targets.forEach((target) => {
+			if (target.dependencies.has(filePath)) {
+				this.schedule(target);
+			}
+		});
+	}
+
+	fileRenamed(oldPath: string, newPath: string) {
+		const target = this.targets.get(oldPath);
+		if (target) {
+			this.targets.delete(oldPath);
+			target.notePath = newPath;
+			this.targets.set(newPath, target);
+		}
+		this.targets.forEach((watched) => {
+			if (watched.dependencies.delete(oldPath)) {
+				watched.dependencies.add(newPath);
+			}
+		});
+	}
+
+	schedule(target: WatchTarget) {
+		if (target.timer) {
+			clearTimeout(target.timer);
+		}
+		target.timer = setTimeout(() => {
+			target.timer = null;
+			this.run(target);
+		}, WATCH_DELAY);
+	}
+
+	async run(target: WatchTarget) {
+		if (target.running) {
+			target.pending = true;
+			return;
+		}
+
+		target.running = true;
+		try {
+			const dependencies = await this.runner(target.notePath, target.templateId);
+			if (dependencies) {
+				target.dependencies = new Set([target.notePath, ...dependencies]);
+			}
+		} catch (e) {
+			console.error(`Watch export of ${target.notePath} failed:`, e);
+		} finally {
+			target.running = false;
+		}
+
+		// Export once more for the changes made during the run, unless watching was stopped
+		if (target.pending && this.targets.get(target.notePath) === target) {
+			target.pending = false;
+			this.schedule(target);
+		}
+	}
+}
@@ -0,0 +1,60 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+// LaTeX looks for .sty and .cls files in these directories first; the empty entry at the end keeps its defaults
+export function texInputsEnvironment(directories: string[]): Record<string, string> {
+	if (directories.length === 0) {
+		return {};
+	}
+	return { TEXINPUTS: [...directories, process.env.TEXINPUTS ?? ''].join(path.delimiter) };
+}
+
+// Temporary directory of a single export: metadata, preprocessed Markdown, extracted media
+// and the LaTeX aux files of pandoc all live here, so one call removes everything
+export class ExportWorkspace {
+	directory: string;
+	// Where LaTeX finds packages and classes that come with the template
+	texDirectories: string[] = [];
+
+	constructor(directory: string) {
+		this.directory = directory;
+	}
+
+	// Several exports can run at the same time in a batch, each gets its own directory
+	static async create(): Promise<ExportWorkspace> {
+		return new ExportWorkspace(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'uni-export-')));
+	}
+
+	// Kept between exports, unlike the workspace itself, for files that are expensive to create
+	static cacheDirectory(name: string): string {
+		return path.join(os.tmpdir(), 'uni-export-cache', name);
+	}
+
+	path(name: string): string {
+		return path.join(this.directory, name);
+	}
+
+	async writeFile(name: string, content: string): Promise<string> {
+		const filePath = this.path(name);
+		await fs.promises.writeFile(filePath, content, 'utf8');
+		return filePath;
+	}
+
+	// Pandoc compiles PDFs in a directory below the system temp directory; pointing it
+	// here keeps the aux files of failed and cancelled runs from piling up
+	environment(): Record<string, string> {
+		return Object.assign(
+			{ TMPDIR: this.directory, TMP: this.directory, TEMP: this.directory },
+			texInputsEnvironment(this.texDirectories)
+		);
+	}
+
+	async dispose() {
+		try {
+			await fs.promises.rm(this.directory, { recursive: true, force: true });
+		} catch (e) {
+			console.warn(`Could not delete the export workspace ${this.directory}:`, e);
+		}
+	}
+}